@@ -1,4 +1,5 @@
 import * as Random from "../src/elmish-random";
+import * as Strings from "../src/strings";
 
 /*
 * 1. Generate a random string with fixed length 10:
@@ -57,4 +58,26 @@ const stringWithRandomLengthGenerator2 =
 for (let j = 0; j < 10; j += 1) {
     console.log("Random length 1: %s", stringWithRandomLengthGenerator.next());
     console.log("Random length 2: %s", stringWithRandomLengthGenerator2.next());
+}
+
+/*
+* 3. Or use the string generators
+*/
+
+// Fixed length 10
+const stringWithFixedLengthGenerator3 =
+    Strings.string({ min: 10, max: 10 }, Strings.alphanumeric);
+
+// Random length between 1 and 24
+const stringWithRandomLengthGenerator3 =
+    Strings.string({ min: 1, max: 24 }, Strings.alphanumeric);
+
+// From a regular expression
+const stringFromRegexGenerator =
+    Strings.fromRegex(/[a-z]{3,8}-[0-9a-f]{4}/);
+
+for (let k = 0; k < 10; k += 1) {
+    console.log("Fixed length 3: %s", stringWithFixedLengthGenerator3.next());
+    console.log("Random length 3: %s", stringWithRandomLengthGenerator3.next());
+    console.log("From regex: %s", stringFromRegexGenerator.next());
 }
\ No newline at end of file
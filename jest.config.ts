@@ -1,12 +1,26 @@
 import type { Config } from '@jest/types';
 
-const config: Config.InitialOptions = {
+const unit: Config.InitialOptions = {
     name : "elmish-random-generators",
-    verbose : true,
     preset: 'ts-jest',
     testEnvironment: 'node',
+};
+
+// the benchmarks run on sources without coverage counters, which would dominate the timings of tight loops
+const benchmarks: Config.InitialOptions = {
+    displayName : "benchmarks",
+    preset: 'ts-jest',
+    testEnvironment: 'node',
+    testMatch: ["<rootDir>/tests/**/*.bench.ts"],
+    coveragePathIgnorePatterns: ["<rootDir>/src/"],
+};
+
+// @jest/types 26 only types projects as paths, but Jest takes the options of the projects inline as well
+const config = {
+    verbose : true,
     collectCoverage: true,
     coverageProvider : "babel",
+    projects: [unit, benchmarks],
 };
 
-export default config;
\ No newline at end of file
+export default config;
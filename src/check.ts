@@ -0,0 +1,217 @@
+import { Generator, initialSeed, shrink, step } from "./elmish-random";
+
+/**
+ * A property is a function that should hold for every generated value.
+ * It fails if it returns `false` or throws (so `expect(...)` works inside of it).
+ *
+ * @typeParam A Type of the values the property is tested with.
+ */
+export type Property<A> = (value: A) => boolean | void;
+
+/**
+ * Options for `check`, `forAll` and `property`.
+ */
+export interface CheckOptions {
+    /**
+     * Number of values the property is tested with. Defaults to 100.
+     */
+    runs?: number,
+
+    /**
+     * Seed for the values. Defaults to a random seed.
+     * Pass the seed of a failed check to replay it.
+     */
+    seed?: number,
+
+    /**
+     * Maximum number of times a counterexample is replaced with a simpler one. Defaults to 1000.
+     */
+    maxShrinks?: number,
+
+    /**
+     * Size of the last run. The size grows from 0 in the first run to `maxSize` in the last, see `sized`. Defaults to 100.
+     */
+    maxSize?: number
+};
+
+/**
+ * Result of a check where the property held for every value.
+ */
+export interface Passed {
+    passed: true,
+    runs: number,
+    seed: number
+};
+
+/**
+ * Result of a check where the property failed.
+ * `original` is the first value it failed for, `counterexample` the simplest value found by shrinking it.
+ */
+export interface Failed<A> {
+    passed: false,
+    runs: number,
+    seed: number,
+    original: A,
+    counterexample: A,
+    shrinks: number,
+    error?: unknown
+};
+
+export type CheckResult<A> = Passed | Failed<A>;
+
+/**
+ * Thrown by `forAll` when the property fails. Carries the full result of the check.
+ */
+export class PropertyFailedError<A> extends Error {
+    constructor(readonly result: Failed<A>) {
+        super(report(result));
+        this.name = "PropertyFailedError";
+    }
+}
+
+/**
+ * Test a property with random values of a generator.
+ * If the property fails, the value is shrunk to the simplest value that still fails (see `shrink`).
+ *
+ * ```ts
+ * // check : Generator a -> (a -> Bool) [-> CheckOptions] -> CheckResult a
+ * // Example
+ * const result = check(pair(int(0, 100), int(0, 100)), ([a, b]) => a + b < 150);
+ * // -> e.g. { passed: false, runs: 7, seed: 2864612931, original: [83, 91], counterexample: [50, 100], shrinks: 9 }
+ * ```
+ */
+export const check = <A>(generator: Generator<A>, predicate: Property<A>, options: CheckOptions = {}): CheckResult<A> => {
+    const runs = options.runs ?? 100;
+    const seed = options.seed ?? Math.floor(Math.random() * 4294967296);
+    const maxShrinks = options.maxShrinks ?? 1000;
+    const maxSize = options.maxSize ?? 100;
+    let current = initialSeed(seed);
+
+    for (let i = 1; i <= runs; i += 1) {
+        const size = runs === 1 ? maxSize : Math.round(maxSize * (i - 1) / (runs - 1));
+        const [value, next] = step(generator, current, size);
+        const failure = test(predicate, value);
+        current = next;
+
+        if (failure) {
+            return {
+                passed: false,
+                runs: i,
+                seed,
+                original: value,
+                ...minimize(generator, predicate, value, failure, maxShrinks)
+            };
+        }
+    }
+
+    return { passed: true, runs, seed };
+};
+
+/**
+ * Like `check`, but throws a `PropertyFailedError` with a readable report if the property fails.
+ *
+ * ```ts
+ * // forAll : Generator a -> (a -> Bool) [-> CheckOptions] -> ()
+ * // Example (in a Jest test)
+ * test("reversing twice gives the same list", () => {
+ *     forAll(list(10, int(0, 100)), xs => {
+ *         expect([...xs].reverse().reverse()).toStrictEqual(xs);
+ *     });
+ * });
+ * ```
+ */
+export const forAll = <A>(generator: Generator<A>, predicate: Property<A>, options: CheckOptions = {}): void => {
+    const result = check(generator, predicate, options);
+    if (!result.passed) {
+        throw new PropertyFailedError(result);
+    }
+};
+
+/**
+ * Create the arguments for a Jest (or Mocha, Vitest, ...) test that checks a property.
+ *
+ * ```ts
+ * // property : String -> Generator a -> (a -> Bool) [-> CheckOptions] -> (String, () -> ())
+ * // Example
+ * test(...property("ints are smaller than their successor", int(0, 100), x => x < x + 1));
+ * ```
+ */
+export const property = <A>(name: string, generator: Generator<A>, predicate: Property<A>, options: CheckOptions = {}): [string, () => void] =>
+    [name, () => forAll(generator, predicate, options)];
+
+/**
+ * Runs the property on a value. Returns undefined if it holds.
+ *
+ * @internal
+ */
+const test = <A>(predicate: Property<A>, value: A): { error?: unknown } | undefined => {
+    try {
+        return predicate(value) === false
+            ? {}
+            : undefined;
+    }
+    catch (error) {
+        return { error };
+    }
+};
+
+/**
+ * Replaces the counterexample with the first simpler value that still fails, until there is none.
+ *
+ * @internal
+ */
+const minimize = <A>(generator: Generator<A>, predicate: Property<A>, value: A, failure: { error?: unknown }, maxShrinks: number) => {
+    let counterexample = value;
+    let error = failure.error;
+    let shrinks = 0;
+
+    shrinking: while (shrinks < maxShrinks) {
+        for (const candidate of shrink(generator, counterexample)) {
+            const candidateFailure = test(predicate, candidate);
+            if (candidateFailure) {
+                counterexample = candidate;
+                error = candidateFailure.error;
+                shrinks += 1;
+                continue shrinking;
+            }
+        }
+        break;
+    }
+
+    return error === undefined
+        ? { counterexample, shrinks }
+        : { counterexample, shrinks, error };
+};
+
+/**
+ * @internal
+ */
+const show = (value: unknown): string => {
+    try {
+        const json = JSON.stringify(value);
+        return json === undefined
+            ? String(value)
+            : json;
+    }
+    catch (_) {
+        return String(value);
+    }
+};
+
+/**
+ * @internal
+ */
+const report = <A>(result: Failed<A>): string =>
+    [
+        `Property failed after ${result.runs} run${result.runs === 1 ? "" : "s"} (seed: ${result.seed}).`,
+        `Counterexample: ${show(result.counterexample)}`,
+        result.shrinks > 0
+            ? `Shrunk ${result.shrinks} time${result.shrinks === 1 ? "" : "s"} from: ${show(result.original)}`
+            : "",
+        result.error !== undefined
+            ? `Error: ${result.error instanceof Error ? result.error.message : show(result.error)}`
+            : "",
+        `Replay with { seed: ${result.seed} }.`
+    ]
+        .filter(line => line !== "")
+        .join("\n");
@@ -0,0 +1,330 @@
+import { Generator, InvalidRangeError, Source, int, shrink, withShrinker } from "./elmish-random";
+import { validate } from "./distributions";
+
+/**
+ * A range of instants, both ends included.
+ */
+export interface DateRange {
+    from: Date,
+    to: Date
+};
+
+/**
+ * Options for the generators that render instants in a time zone.
+ */
+export interface TimeZoneOptions {
+    /**
+     * IANA time zone, e.g. `"Europe/Berlin"`. Defaults to `"UTC"`, so values don't depend on the machine they are generated on.
+     */
+    timeZone?: string
+};
+
+/**
+ * Options for `businessDateTime`.
+ */
+export interface BusinessHoursOptions extends TimeZoneOptions {
+    /**
+     * Days of the week instants may fall on, 0 is Sunday. Defaults to Monday to Friday.
+     */
+    weekdays?: number[],
+
+    /**
+     * First hour of the business day. Defaults to 9.
+     */
+    startHour?: number,
+
+    /**
+     * Hour the business day ends at (not included). Defaults to 17.
+     */
+    endHour?: number
+};
+
+/**
+ * Wall clock time of an instant in a time zone.
+ *
+ * @internal
+ */
+type ZonedParts = {
+    year: number,
+    month: number,
+    day: number,
+    weekday: number,
+    hour: number,
+    minute: number,
+    second: number
+};
+
+/**
+ * @internal
+ */
+const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Returns a function that tells the wall clock time of instants in a time zone.
+ * Throws a `RangeError` for unknown time zones.
+ *
+ * @internal
+ */
+const zoned = (timeZone: string): ((date: Date) => ZonedParts) => {
+    const formatter = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hour12: false,
+        era: "short",
+        weekday: "short",
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+        hour: "numeric",
+        minute: "numeric",
+        second: "numeric"
+    });
+    return date => {
+        const parts: { [type: string]: string } = {};
+        formatter.formatToParts(date).forEach(part => parts[part.type] = part.value);
+        return {
+            // years before 1 AD are written as 1 BC, 2 BC, ... - ISO 8601 counts them as 0, -1, ...
+            year: parts.era === "BC" ? 1 - Number(parts.year) : Number(parts.year),
+            month: Number(parts.month),
+            day: Number(parts.day),
+            weekday: weekdays.indexOf(parts.weekday),
+            // some engines write midnight as 24:00
+            hour: Number(parts.hour) % 24,
+            minute: Number(parts.minute),
+            second: Number(parts.second)
+        };
+    };
+};
+
+/**
+ * @internal
+ */
+const pad = (n: number, width: number = 2): string =>
+    String(n).padStart(width, "0");
+
+/**
+ * Writes a year the way ISO 8601 (and `toISOString()`) does: with 4 digits, or with a sign and 6 digits outside of 0000 to 9999.
+ *
+ * @internal
+ */
+const padYear = (year: number): string =>
+    year >= 0 && year <= 9999
+        ? pad(year, 4)
+        : (year < 0 ? "-" : "+") + pad(Math.abs(year), 6);
+
+/**
+ * Validates a date range and returns it in milliseconds.
+ *
+ * @internal
+ */
+const milliseconds = (name: string, range: DateRange): [number, number] => {
+    const from = range.from.getTime();
+    const to = range.to.getTime();
+    if (Number.isNaN(from) || Number.isNaN(to) || from > to) {
+        throw new InvalidRangeError(`${name}: from must be a valid date before to, got ${range.from} and ${range.to}.`, from, to);
+    }
+    return [from, to];
+};
+
+/**
+ * Create generator for instants (`Date`s) within a range. Every millisecond in the range is equally likely.
+ *
+ * ```ts
+ * // date : DateRange [-> Source Float] -> Generator Date
+ * // Example
+ * const signups = date({ from: new Date("2020-01-01"), to: new Date("2020-12-31T23:59:59.999Z") });
+ * console.log(signups.next()); // -> e.g. 2020-07-14T03:17:52.311Z
+ * ```
+ *
+ * Dates shrink towards `from`. Throws an `InvalidRangeError` if `from` is after `to`.
+ */
+export const date = (range: DateRange, source: Source<number> = Math.random): Generator<Date> => {
+    const [from, to] = milliseconds("date", range);
+    const offsets = int(0, to - from, source);
+    return withShrinker(
+        offsets.map(ms => new Date(from + ms)),
+        d => shrink(offsets, d.getTime() - from).map(ms => new Date(from + ms))
+    );
+};
+
+/**
+ * Format an instant as ISO 8601 date-time in a time zone, with the offset of the time zone at that instant.
+ * In UTC it's the same as `toISOString()`. Years before 0000 and after 9999 are written in the extended form, e.g. "+012345" or "-000042".
+ *
+ * ```ts
+ * // formatISO : Date [-> String] -> String
+ * // Example
+ * formatISO(new Date("2024-03-31T01:30:00Z"), "Europe/Berlin"); // -> "2024-03-31T03:30:00.000+02:00"
+ * ```
+ */
+export const formatISO = (d: Date, timeZone: string = "UTC"): string =>
+    timeZone === "UTC"
+        ? d.toISOString()
+        : isoIn(zoned(timeZone))(d);
+
+/**
+ * @internal
+ */
+const isoIn = (partsOf: (date: Date) => ZonedParts) => (d: Date): string => {
+    const p = partsOf(d);
+    const ms = d.getUTCMilliseconds();
+    // not Date.UTC, which takes the years 0 to 99 for 1900 to 1999
+    const wallClock = new Date(0);
+    wallClock.setUTCFullYear(p.year, p.month - 1, p.day);
+    wallClock.setUTCHours(p.hour, p.minute, p.second, ms);
+    const offset = Math.round((wallClock.getTime() - d.getTime()) / 60000);
+    const sign = offset < 0 ? "-" : "+";
+    return `${padYear(p.year)}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}.${pad(ms, 3)}`
+        + `${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+};
+
+/**
+ * Create generator for ISO 8601 date-times within a range, written in a time zone (UTC by default).
+ * Instants are generated first and then written in the time zone, so DST gaps (wall clock times that don't exist) never come up,
+ * and the offset is always the one in effect at the instant.
+ *
+ * ```ts
+ * // dateTimeISO : DateRange [-> TimeZoneOptions] [-> Source Float] -> Generator String
+ * // Example
+ * const timestamps = dateTimeISO({ from: new Date("2024-01-01"), to: new Date("2025-01-01") }, { timeZone: "Europe/Berlin" });
+ * console.log(timestamps.next()); // -> e.g. "2024-07-14T05:17:52.311+02:00"
+ * ```
+ */
+export const dateTimeISO = (range: DateRange, options: TimeZoneOptions = {}, source: Source<number> = Math.random): Generator<string> => {
+    const timeZone = options.timeZone ?? "UTC";
+    const format = timeZone === "UTC"
+        ? (d: Date) => d.toISOString()
+        : isoIn(zoned(timeZone));
+    const dates = date(range, source);
+    return withShrinker(
+        dates.map(format),
+        s => shrink(dates, new Date(s)).map(format)
+    );
+};
+
+/**
+ * Parses "HH:MM" or "HH:MM:SS" into seconds since midnight.
+ *
+ * @internal
+ */
+const seconds = (time: string): number => {
+    const match = /^(\d{2}):(\d{2})(?::(\d{2}))?$/.exec(time);
+    if (!match || Number(match[1]) > 23 || Number(match[2]) > 59 || Number(match[3] ?? 0) > 59) {
+        throw new InvalidRangeError(`time: times must be written as HH:MM or HH:MM:SS, got "${time}".`, NaN, NaN);
+    }
+    return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3] ?? 0);
+};
+
+/**
+ * Create generator for times of day as "HH:MM:SS", within the bounds (both included).
+ *
+ * ```ts
+ * // time : [{ min : String, max : String }] [-> Source Float] -> Generator String
+ * // Example
+ * const lunchBreaks = time({ min: "11:30", max: "14:00" });
+ * console.log(lunchBreaks.next()); // -> e.g. "12:47:09"
+ * ```
+ *
+ * Times shrink towards `min`. Throws an `InvalidRangeError` if `min` is after `max`.
+ */
+export const time = (bounds: { min?: string, max?: string } = {}, source: Source<number> = Math.random): Generator<string> => {
+    const min = seconds(bounds.min ?? "00:00:00");
+    const max = seconds(bounds.max ?? "23:59:59");
+    if (min > max) {
+        throw new InvalidRangeError(`time: min must not be after max, got ${bounds.min} and ${bounds.max}.`, min, max);
+    }
+
+    const offsets = int(0, max - min, source);
+    const format = (offset: number): string => {
+        const t = min + offset;
+        return `${pad(Math.floor(t / 3600))}:${pad(Math.floor(t / 60) % 60)}:${pad(t % 60)}`;
+    };
+    return withShrinker(
+        offsets.map(format),
+        s => shrink(offsets, seconds(s) - min).map(format)
+    );
+};
+
+/**
+ * Create generator for durations in milliseconds within bounds (both included).
+ * Use `formatDuration` to write them as ISO 8601 durations.
+ *
+ * ```ts
+ * // duration : Int -> Int [-> Source Float] -> Generator Int
+ * // Example: between a minute and two hours
+ * const callLengths = duration(60 * 1000, 2 * 60 * 60 * 1000);
+ * console.log(formatDuration(callLengths.next())); // -> e.g. "PT1H12M5.093S"
+ * ```
+ *
+ * Durations shrink towards the shortest duration in the bounds.
+ */
+export const duration = (min: number, max: number, source: Source<number> = Math.random): Generator<number> => {
+    if (min < 0 || max < 0) {
+        throw new InvalidRangeError(`duration: bounds must not be negative, got ${min} and ${max}.`, min, max);
+    }
+    return int(min, max, source);
+};
+
+/**
+ * Write a duration in milliseconds as ISO 8601 duration. Days are the largest unit, since months and years vary in length.
+ * Fractions of a millisecond are rounded.
+ *
+ * ```ts
+ * // formatDuration : Int -> String
+ * // Example
+ * formatDuration(93784005); // -> "P1DT2H3M4.005S"
+ * formatDuration(0); // -> "PT0S"
+ * ```
+ *
+ * Throws an `InvalidParameterError` unless `ms` is a finite number >= 0: ISO 8601 has no notation for negative durations.
+ */
+export const formatDuration = (ms: number): string => {
+    validate("formatDuration", "ms", ms, Number.isFinite(ms) && ms >= 0, "a finite number >= 0");
+    // rounded before it's split up, so 999.6 ms are written as 1 second, not as 1000 ms
+    const total = Math.round(ms);
+    const days = Math.floor(total / 86400000);
+    const hours = Math.floor(total / 3600000) % 24;
+    const minutes = Math.floor(total / 60000) % 60;
+    const secs = Math.floor(total / 1000) % 60;
+    const millis = total % 1000;
+    const timePart =
+        (hours > 0 ? `${hours}H` : "")
+        + (minutes > 0 ? `${minutes}M` : "")
+        + (secs > 0 || millis > 0 ? `${secs}${millis > 0 ? "." + pad(millis, 3) : ""}S` : "");
+    return total === 0
+        ? "PT0S"
+        : `P${days > 0 ? `${days}D` : ""}${timePart !== "" ? "T" + timePart : ""}`;
+};
+
+/**
+ * Create generator for instants within a range that fall into business hours in a time zone (UTC by default),
+ * e.g. 9 to 17 from Monday to Friday. DST changes are taken into account, since the hours are checked on the wall clock.
+ *
+ * ```ts
+ * // businessDateTime : DateRange [-> BusinessHoursOptions] [-> Source Float] -> Generator Date
+ * // Example: support tickets opened during office hours in Berlin
+ * const opened = businessDateTime(
+ *     { from: new Date("2024-01-01"), to: new Date("2024-12-31") },
+ *     { timeZone: "Europe/Berlin", startHour: 8, endHour: 18 }
+ * );
+ * ```
+ *
+ * Instants outside of business hours are rejected and generated again,
+ * so ranges with hardly any business hours in them throw a `RetriesExhaustedError`.
+ */
+export const businessDateTime = (range: DateRange, options: BusinessHoursOptions = {}, source: Source<number> = Math.random): Generator<Date> => {
+    const days = options.weekdays ?? [1, 2, 3, 4, 5];
+    const startHour = options.startHour ?? 9;
+    const endHour = options.endHour ?? 17;
+    if (startHour < 0 || endHour > 24 || startHour >= endHour) {
+        throw new InvalidRangeError(`businessDateTime: the business day must be within 0 and 24 hours, got ${startHour} to ${endHour}.`, startHour, endHour);
+    }
+
+    const partsOf = zoned(options.timeZone ?? "UTC");
+    return date(range, source).filter(
+        d => {
+            const p = partsOf(d);
+            return days.indexOf(p.weekday) !== -1 && p.hour >= startHour && p.hour < endHour;
+        },
+        { maxTries: 1000 }
+    );
+};
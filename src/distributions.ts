@@ -0,0 +1,316 @@
+import { Generator, Source, fromSource } from "./elmish-random";
+
+/**
+ * Thrown when a distribution is created with parameters it isn't defined for.
+ */
+export class InvalidParameterError extends Error {
+    constructor(message: string, readonly parameter: string, readonly value: number) {
+        super(message);
+        this.name = "InvalidParameterError";
+    }
+}
+
+/**
+ * Throws an `InvalidParameterError` unless the parameter of the generator `name` is valid.
+ * Shared with the other modules that throw `InvalidParameterError`s.
+ *
+ * @internal
+ */
+export const validate = (name: string, parameter: string, value: number, isValid: boolean, requirement: string): void => {
+    if (!isValid || Number.isNaN(value)) {
+        throw new InvalidParameterError(`${name}: ${parameter} must be ${requirement}, got ${value}.`, parameter, value);
+    }
+};
+
+/**
+ * A float in (0, 1] - safe to take the logarithm of.
+ *
+ * @internal
+ */
+const positive = (s: Source<number>): number =>
+    1 - s();
+
+/**
+ * Box-Muller transform. Uses two draws and discards the second normal value,
+ * so every value takes the same number of draws.
+ *
+ * @internal
+ */
+const standardNormal = (s: Source<number>): number =>
+    Math.sqrt(-2 * Math.log(positive(s))) * Math.cos(2 * Math.PI * s());
+
+/**
+ * Marsaglia and Tsang's method for shape >= 1, boosted by u^(1/shape) for smaller shapes.
+ *
+ * @internal
+ */
+const standardGamma = (shape: number, s: Source<number>): number => {
+    if (shape < 1) {
+        return standardGamma(shape + 1, s) * positive(s) ** (1 / shape);
+    }
+
+    const d = shape - 1 / 3;
+    const c = 1 / Math.sqrt(9 * d);
+    for (;;) {
+        const x = standardNormal(s);
+        const v = (1 + c * x) ** 3;
+        if (v > 0 && Math.log(positive(s)) < x * x / 2 + d - d * v + d * Math.log(v)) {
+            return d * v;
+        }
+    }
+};
+
+/**
+ * Lanczos approximation of ln(Gamma(x)) for x > 0. Also used by the tests in `diagnostics`.
+ *
+ * @internal
+ */
+export const logGamma = (x: number): number => {
+    const coefficients = [
+        76.18009172947146, -86.50532032941677, 24.01409824083091,
+        -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5
+    ];
+    const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+    const series = coefficients.reduce((acc, c, i) => acc + c / (x + 1 + i), 1.000000000190015);
+    return -tmp + Math.log(2.5066282746310005 * series / x);
+};
+
+/**
+ * Knuth's multiplication method for small means, Hörmann's PTRS (transformed rejection) otherwise.
+ *
+ * @internal
+ */
+const poissonDraw = (lambda: number, s: Source<number>): number => {
+    if (lambda === 0) {
+        return 0;
+    }
+    else if (lambda < 30) {
+        const limit = Math.exp(-lambda);
+        let k = 0;
+        for (let p = s(); p > limit; p *= s()) {
+            k += 1;
+        }
+        return k;
+    }
+
+    const logLambda = Math.log(lambda);
+    const b = 0.931 + 2.53 * Math.sqrt(lambda);
+    const a = -0.059 + 0.02483 * b;
+    const invAlpha = 1.1239 + 1.1328 / (b - 3.4);
+    const vr = 0.9277 - 3.6224 / (b - 2);
+    for (;;) {
+        const u = s() - 0.5;
+        const v = s();
+        const us = 0.5 - Math.abs(u);
+        const k = Math.floor((2 * a / us + b) * u + lambda + 0.43);
+        if (us >= 0.07 && v <= vr) {
+            return k;
+        }
+        else if (k >= 0 && (us >= 0.013 || v <= us)
+            && Math.log(v) + Math.log(invAlpha) - Math.log(a / (us * us) + b) <= -lambda + k * logLambda - logGamma(k + 1)) {
+            return k;
+        }
+    }
+};
+
+/**
+ * Counts successes for small n, otherwise splits the trials at a beta distributed order statistic (Knuth, TAOCP 3.4.1).
+ *
+ * @internal
+ */
+const binomialDraw = (n: number, p: number, s: Source<number>): number => {
+    if (n <= 64) {
+        let k = 0;
+        for (let i = 0; i < n; i += 1) {
+            k += s() < p ? 1 : 0;
+        }
+        return k;
+    }
+
+    const a = 1 + Math.floor(n / 2);
+    const b = n + 1 - a;
+    const x = standardGamma(a, s);
+    const order = x / (x + standardGamma(b, s));
+    return order >= p
+        ? binomialDraw(a - 1, p / order, s)
+        : a + binomialDraw(b - 1, (p - order) / (1 - order), s);
+};
+
+/**
+ * Create generator for booleans that are `true` with probability p.
+ *
+ * ```ts
+ * // bernoulli : Float [-> Source Float] -> Generator Bool
+ * // Example: a coin that lands on heads 70% of the time
+ * const unfairCoin = bernoulli(0.7);
+ * ```
+ */
+export const bernoulli = (p: number, source: Source<number> = Math.random): Generator<boolean> => {
+    validate("bernoulli", "p", p, p >= 0 && p <= 1, "within [0, 1]");
+    return fromSource(s => s() < p, source);
+};
+
+/**
+ * Create generator for normally distributed floats (Box-Muller transform).
+ *
+ * ```ts
+ * // normal : Float -> Float [-> Source Float] -> Generator Float
+ * // Example: body heights in cm
+ * const heights = normal(170, 10);
+ * ```
+ *
+ * @param mean Mean of the distribution.
+ * @param standardDeviation Standard deviation, >= 0.
+ */
+export const normal = (mean: number, standardDeviation: number, source: Source<number> = Math.random): Generator<number> => {
+    validate("normal", "mean", mean, Number.isFinite(mean), "a finite number");
+    validate("normal", "standardDeviation", standardDeviation, Number.isFinite(standardDeviation) && standardDeviation >= 0, "a finite number >= 0");
+    return fromSource(s => mean + standardDeviation * standardNormal(s), source);
+};
+
+/**
+ * Create generator for log-normally distributed floats: `e^x` where x is normally distributed.
+ *
+ * ```ts
+ * // logNormal : Float -> Float [-> Source Float] -> Generator Float
+ * // Example: incomes
+ * const incomes = logNormal(10, 0.5);
+ * ```
+ *
+ * @param mu Mean of the underlying normal distribution.
+ * @param sigma Standard deviation of the underlying normal distribution, >= 0.
+ */
+export const logNormal = (mu: number, sigma: number, source: Source<number> = Math.random): Generator<number> => {
+    validate("logNormal", "mu", mu, Number.isFinite(mu), "a finite number");
+    validate("logNormal", "sigma", sigma, Number.isFinite(sigma) && sigma >= 0, "a finite number >= 0");
+    return fromSource(s => Math.exp(mu + sigma * standardNormal(s)), source);
+};
+
+/**
+ * Create generator for exponentially distributed floats, e.g. the time between independent events.
+ *
+ * ```ts
+ * // exponential : Float [-> Source Float] -> Generator Float
+ * // Example: minutes until the next customer arrives, 3 customers per minute on average
+ * const arrivals = exponential(3);
+ * ```
+ *
+ * @param rate Events per unit of time, > 0. The mean is 1 / rate.
+ */
+export const exponential = (rate: number, source: Source<number> = Math.random): Generator<number> => {
+    validate("exponential", "rate", rate, Number.isFinite(rate) && rate > 0, "a finite number > 0");
+    return fromSource(s => -Math.log(positive(s)) / rate, source);
+};
+
+/**
+ * Create generator for Poisson distributed ints, e.g. the number of events in a unit of time.
+ *
+ * ```ts
+ * // poisson : Float [-> Source Float] -> Generator Int
+ * // Example: number of customers per minute
+ * const customers = poisson(3);
+ * ```
+ *
+ * @param lambda Mean number of events, >= 0.
+ */
+export const poisson = (lambda: number, source: Source<number> = Math.random): Generator<number> => {
+    validate("poisson", "lambda", lambda, Number.isFinite(lambda) && lambda >= 0, "a finite number >= 0");
+    return fromSource(s => poissonDraw(lambda, s), source);
+};
+
+/**
+ * Create generator for binomially distributed ints: the number of successes in n trials.
+ *
+ * ```ts
+ * // binomial : Int -> Float [-> Source Float] -> Generator Int
+ * // Example: number of sixes in 20 dice rolls
+ * const sixes = binomial(20, 1 / 6);
+ * ```
+ *
+ * @param n Number of trials, an int >= 0.
+ * @param p Probability of success of each trial, within [0, 1].
+ */
+export const binomial = (n: number, p: number, source: Source<number> = Math.random): Generator<number> => {
+    validate("binomial", "n", n, Number.isSafeInteger(n) && n >= 0, "an int >= 0");
+    validate("binomial", "p", p, p >= 0 && p <= 1, "within [0, 1]");
+    return fromSource(s => binomialDraw(n, p, s), source);
+};
+
+/**
+ * Create generator for geometrically distributed ints: the number of trials up to and including the first success.
+ *
+ * ```ts
+ * // geometric : Float [-> Source Float] -> Generator Int
+ * // Example: number of rolls until the first six
+ * const rolls = geometric(1 / 6);
+ * ```
+ *
+ * @param p Probability of success of each trial, within (0, 1]. The mean is 1 / p.
+ */
+export const geometric = (p: number, source: Source<number> = Math.random): Generator<number> => {
+    validate("geometric", "p", p, p > 0 && p <= 1, "within (0, 1]");
+    return p === 1
+        ? fromSource(() => 1, source)
+        : fromSource(s => 1 + Math.floor(Math.log(positive(s)) / Math.log(1 - p)), source);
+};
+
+/**
+ * Create generator for gamma distributed floats (Marsaglia and Tsang's method).
+ *
+ * ```ts
+ * // gamma : Float -> Float [-> Source Float] -> Generator Float
+ * // Example: total waiting time for 3 events with a mean of 2 minutes each
+ * const waitingTimes = gamma(3, 2);
+ * ```
+ *
+ * @param shape Shape k, > 0.
+ * @param scale Scale θ, > 0. The mean is k * θ.
+ */
+export const gamma = (shape: number, scale: number = 1, source: Source<number> = Math.random): Generator<number> => {
+    validate("gamma", "shape", shape, Number.isFinite(shape) && shape > 0, "a finite number > 0");
+    validate("gamma", "scale", scale, Number.isFinite(scale) && scale > 0, "a finite number > 0");
+    return fromSource(s => scale * standardGamma(shape, s), source);
+};
+
+/**
+ * Create generator for beta distributed floats in [0, 1], e.g. for random probabilities.
+ *
+ * ```ts
+ * // beta : Float -> Float [-> Source Float] -> Generator Float
+ * // Example: click-through rates of ads, around 10%
+ * const rates = beta(2, 18);
+ * ```
+ *
+ * @param alpha α, > 0.
+ * @param beta β, > 0. The mean is α / (α + β).
+ */
+export const beta = (alpha: number, beta: number, source: Source<number> = Math.random): Generator<number> => {
+    validate("beta", "alpha", alpha, Number.isFinite(alpha) && alpha > 0, "a finite number > 0");
+    validate("beta", "beta", beta, Number.isFinite(beta) && beta > 0, "a finite number > 0");
+    return fromSource(s => {
+        const x = standardGamma(alpha, s);
+        return x / (x + standardGamma(beta, s));
+    }, source);
+};
+
+/**
+ * Create generator for floats with a triangular distribution: most likely around mode, never outside [min, max].
+ *
+ * ```ts
+ * // triangular : Float -> Float -> Float [-> Source Float] -> Generator Float
+ * // Example: task estimates between 2 and 10 days, most likely 4
+ * const estimates = triangular(2, 4, 10);
+ * ```
+ */
+export const triangular = (min: number, mode: number, max: number, source: Source<number> = Math.random): Generator<number> => {
+    validate("triangular", "max", max, Number.isFinite(max), "a finite number");
+    validate("triangular", "min", min, Number.isFinite(min) && min <= max, "a finite number <= max");
+    validate("triangular", "mode", mode, mode >= min && mode <= max, "within [min, max]");
+    const split = max === min ? 0 : (mode - min) / (max - min);
+    return fromSource(s => {
+        const u = s();
+        return u < split
+            ? min + Math.sqrt(u * (max - min) * (mode - min))
+            : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+    }, source);
+};
@@ -0,0 +1,271 @@
+import { Description, DescriptionError, Generator, Registry, Source, describe, fromDescription, nextWith } from "./elmish-random";
+
+/**
+ * A command to generate a random value and deliver it as a message, see `generate`.
+ * It is a plain, JSON-serializable object, so it can be returned from a pure `update`, dispatched like any other action,
+ * logged or sent to a worker. The runtime rebuilds the generator from its description and looks up the message constructor
+ * under `tag` in its registry.
+ *
+ * @typeParam Msg Type of the message the command produces.
+ */
+export interface GenerateCmd<Msg> {
+    type: "elmish-random/generate",
+    tag: string,
+    generator: Description
+};
+
+/**
+ * A command to generate a random value with a generator that has no description, see `generate`.
+ * It holds the generator itself, so unlike a `GenerateCmd` it isn't serializable: it can only be performed where it was created.
+ *
+ * @typeParam Msg Type of the message the command produces.
+ */
+export interface LocalGenerateCmd<Msg> {
+    type: "elmish-random/generate-local",
+    tag: string,
+    generator: Generator<unknown>
+};
+
+/**
+ * Several commands at once, see `batch`.
+ */
+export interface BatchCmd<Msg> {
+    type: "elmish-random/batch",
+    cmds: Array<Cmd<Msg>>
+};
+
+/**
+ * A command for the runtime (`start`, `simulate` or `randomMiddleware`) to perform.
+ *
+ * @typeParam Msg Type of the messages the command produces.
+ */
+export type Cmd<Msg> = GenerateCmd<Msg> | LocalGenerateCmd<Msg> | BatchCmd<Msg>;
+
+/**
+ * A program in the Elm architecture: an initial model and an `update` that returns the next model and a command.
+ */
+export interface Program<Model, Msg> {
+    init: [Model, Cmd<Msg>],
+    update: (msg: Msg, model: Model) => [Model, Cmd<Msg>],
+
+    /**
+     * The message constructors of the commands (under their tags) and the functions of their `map` and `then` steps.
+     */
+    registry?: Registry,
+
+    /**
+     * Called with the model after every update, e.g. to render it.
+     */
+    onUpdate?: (model: Model) => void
+};
+
+/**
+ * A running program, see `start`.
+ */
+export interface Runtime<Model, Msg> {
+    dispatch: (msg: Msg) => void,
+    model: () => Model
+};
+
+/**
+ * The minimal part of a Redux store a middleware is handed.
+ *
+ * @typeParam Msg Type of the messages the middleware dispatches.
+ */
+export interface MiddlewareAPI<Msg> {
+    dispatch: (msg: Msg) => unknown
+};
+
+/**
+ * Create a command that generates a value and turns it into a message - like `Random.generate` in Elm.
+ * The message is created by the function registered under `tag` in the registry of the runtime.
+ * If the generator has a description (see `describe`, the functions of its `map` and `then` steps are looked up in `registry`),
+ * the command stores it and is plain JSON. Any other generator works too, but is stored as it is in a `LocalGenerateCmd`.
+ *
+ * ```ts
+ * // generate : String -> Generator a [-> Registry] -> Cmd msg
+ * // Example
+ * type Msg = { type: "roll" } | { type: "rolled", face: number };
+ * const registry = { rolled: (face: number): Msg => ({ type: "rolled", face }) };
+ *
+ * const update = (msg: Msg, model: number): [number, Cmd<Msg>] => {
+ *     switch (msg.type) {
+ *         case "roll":
+ *             return [model, generate("rolled", int(1, 6))];
+ *         case "rolled":
+ *             return [msg.face, none];
+ *     }
+ * };
+ * const runtime = start({ init: [0, none], update, registry });
+ * ```
+ */
+export const generate = <A, Msg>(tag: string, generator: Generator<A>, registry: Registry = {}): Cmd<Msg> => {
+    try {
+        return { type: "elmish-random/generate", tag, generator: describe(generator, registry) };
+    }
+    catch (error) {
+        if (!(error instanceof DescriptionError)) {
+            throw error;
+        }
+        return { type: "elmish-random/generate-local", tag, generator };
+    }
+};
+
+/**
+ * Combine several commands into one - like `Cmd.batch` in Elm. They are performed in order.
+ *
+ * ```ts
+ * // batch : List (Cmd msg) -> Cmd msg
+ * // Example
+ * batch([generate("rolled", int(1, 6)), generate("drawn", uniform("a", ["b", "c"]))]);
+ * ```
+ */
+export const batch = <Msg>(cmds: Array<Cmd<Msg>>): Cmd<Msg> =>
+    ({ type: "elmish-random/batch", cmds });
+
+/**
+ * The command that does nothing - like `Cmd.none` in Elm.
+ */
+export const none: Cmd<never> = batch<never>([]);
+
+/**
+ * Whether a value (e.g. a Redux action) is a command.
+ *
+ * ```ts
+ * // isCmd : a -> Bool
+ * // Example
+ * isCmd(generate("rolled", int(1, 6))); // -> true
+ * isCmd({ type: "rolled", face: 3 }); // -> false
+ * ```
+ */
+export const isCmd = (value: unknown): value is Cmd<unknown> =>
+    typeof value === "object"
+    && value !== null
+    && ["elmish-random/generate", "elmish-random/generate-local", "elmish-random/batch"].indexOf((value as Cmd<unknown>).type) !== -1;
+
+/**
+ * Perform a command: rebuild its generators from their descriptions (if they have one), generate their values and dispatch the messages.
+ * Every value is drawn from `source`, also for generators without a description.
+ * The message constructors and the functions of `map` and `then` steps are looked up in the registry.
+ * Throws a `DescriptionError` if one of them isn't there.
+ *
+ * ```ts
+ * // perform : Cmd msg -> (msg -> ()) -> Registry [-> Source Float] -> ()
+ * // Example
+ * perform(generate("rolled", int(1, 6)), msg => console.log(msg), registry); // logs e.g. { type: "rolled", face: 4 }
+ * ```
+ *
+ * @param source Source for every value, e.g. a seeded one in tests. Defaults to `Math.random`.
+ */
+export const perform = <Msg>(cmd: Cmd<Msg>, dispatch: (msg: Msg) => void, registry: Registry, source: Source<number> = Math.random): void => {
+    if (cmd.type === "elmish-random/batch") {
+        cmd.cmds.forEach(c => perform(c, dispatch, registry, source));
+    }
+    else {
+        const toMsg: unknown = registry[cmd.tag];
+        if (typeof toMsg !== "function") {
+            throw new DescriptionError(`perform: there is no message constructor named "${cmd.tag}" in the registry.`);
+        }
+        const value: unknown = cmd.type === "elmish-random/generate"
+            ? fromDescription(cmd.generator, registry, source).next()
+            : nextWith(cmd.generator, source);
+        dispatch((toMsg as (value: unknown) => Msg)(value));
+    }
+};
+
+/**
+ * Create a Redux middleware that performs commands dispatched as actions and dispatches their messages.
+ * Other actions are passed on. Reducers stay pure: they (or action creators) return commands instead of calling `next()`.
+ * Commands of generators with a description are plain JSON, so they pass through devtools, logging and persistence middlewares unharmed.
+ *
+ * ```ts
+ * // randomMiddleware : Registry [-> Source Float] -> Middleware
+ * // Example
+ * const registry = { rolled: (face: number) => ({ type: "rolled", face }) };
+ * const store = createStore(reducer, applyMiddleware(randomMiddleware(registry)));
+ * store.dispatch(generate("rolled", int(1, 6)));
+ * ```
+ *
+ * @param registry Message constructors of the commands and functions of their `map` and `then` steps.
+ * @param source Source for every value, e.g. a seeded one in tests. Defaults to `Math.random`.
+ */
+export const randomMiddleware = <Msg>(registry: Registry, source?: Source<number>) =>
+    (api: MiddlewareAPI<Msg>) => <Action, Result>(next: (action: Action) => Result) => (action: Action | Cmd<Msg>): Result | void =>
+        isCmd(action)
+            ? perform(action as Cmd<Msg>, api.dispatch, registry, source)
+            : next(action as Action);
+
+/**
+ * Start a program: apply `init`, and for every dispatched message `update` the model and perform the returned command.
+ * Messages from commands are queued and handled in order after the current update, so `update` never runs re-entrantly.
+ * If `update` throws, the queued messages are dropped and the error is passed on to the caller of `dispatch`.
+ *
+ * ```ts
+ * // start : Program model msg [-> Source Float] -> Runtime model msg
+ * // Example
+ * const runtime = start({ init: [0, none], update, registry, onUpdate: model => render(model) });
+ * button.onclick = () => runtime.dispatch({ type: "roll" });
+ * ```
+ *
+ * @param program Initial model and command, update, the registry of the commands and an optional callback.
+ * @param source Source for every value, e.g. a seeded one in tests. Defaults to `Math.random`.
+ */
+export const start = <Model, Msg>(program: Program<Model, Msg>, source?: Source<number>): Runtime<Model, Msg> => {
+    let [model, initialCmd] = program.init;
+    const registry = program.registry ?? {};
+    const queue: Msg[] = [];
+    let running = false;
+
+    const dispatch = (msg: Msg): void => {
+        queue.push(msg);
+        if (running) {
+            return;
+        }
+        running = true;
+        try {
+            while (queue.length > 0) {
+                const [next, cmd] = program.update(queue.shift() as Msg, model);
+                model = next;
+                if (program.onUpdate) {
+                    program.onUpdate(model);
+                }
+                perform(cmd, dispatch, registry, source);
+            }
+        }
+        finally {
+            // after an error the messages left would otherwise be handled with the next dispatch, out of context
+            queue.length = 0;
+            running = false;
+        }
+    };
+
+    perform(initialCmd, dispatch, registry, source);
+    return { dispatch, model: () => model };
+};
+
+/**
+ * Run a program in test mode: start it with a seeded source, dispatch the messages and return the final model
+ * together with every message handled - the dispatched ones and those of the commands. The same seed always gives the same result.
+ *
+ * ```ts
+ * // simulate : Program model msg -> List msg -> Source Float -> { model : model, messages : List msg }
+ * // Example (in a Jest test)
+ * const { model, messages } = simulate({ init: [0, none], update, registry }, [{ type: "roll" }], pcg32(42));
+ * expect(messages).toStrictEqual([{ type: "roll" }, { type: "rolled", face: model }]);
+ * ```
+ */
+export const simulate = <Model, Msg>(program: Program<Model, Msg>, msgs: Msg[], source: Source<number>): { model: Model, messages: Msg[] } => {
+    const messages: Msg[] = [];
+    const runtime = start(
+        {
+            ...program,
+            update: (msg, model) => {
+                messages.push(msg);
+                return program.update(msg, model);
+            }
+        },
+        source
+    );
+    msgs.forEach(runtime.dispatch);
+    return { model: runtime.model(), messages };
+};
@@ -54,6 +54,35 @@ export interface Generator<A> {
      */
     then: <B>(transformer: Transformer<A, Generator<B>>) => Generator<B>,
 
+    /**
+     * Keeps only the values that pass a predicate. Values that don't are rejected and generated again.
+     * Throws a `RetriesExhaustedError` (carrying the last rejected value) if too many values in a row are rejected.
+     * 
+     * ```ts
+     * // NOTE: The .> arrow symbolizes the method-chaining (does it?)
+     * // filter : Generator a .> (a -> Bool) [-> FilterOptions] -> Generator a
+     * const odds = int(0, 99).filter(x => x % 2 === 1);
+     * odds.next(); // -> 37
+     * 
+     * // throws after 10 rejected values in a row
+     * const impossible = int(0, 99).filter(x => x > 100, { maxTries: 10 });
+     * ```
+     * 
+     * **NOTE:** Prefer transforming values with `map` where you can - `int(0, 49).map(x => 2 * x + 1)` never rejects anything.
+     */
+    filter: (predicate: (a: A) => boolean, options?: FilterOptions) => Generator<A>,
+
+    /**
+     * Transforms values and keeps only those that aren't transformed to `undefined`. See `filter`.
+     * 
+     * ```ts
+     * // NOTE: The .> arrow symbolizes the method-chaining (does it?)
+     * // filterMap : Generator a .> (a -> Maybe b) [-> FilterOptions] -> Generator b
+     * const inverses = float(-1, 1).filterMap(x => x !== 0 ? 1 / x : undefined);
+     * ```
+     */
+    filterMap: <B>(transformer: Transformer<A, B | undefined>, options?: FilterOptions) => Generator<B>,
+
     /**
      * Generates a random value of the generator's type.
      * Each invidual value can be transformed by passing a transformer to next().
@@ -70,9 +99,63 @@ export interface Generator<A> {
      * console.log(numbers.next(x => x + " Pirates on a ship")); // -> "11 Pirates on a ship"
      * ```
      */
-    next: Source<A>
+    next: Source<A>,
+
+    /**
+     * Generates a list of n random values of the generator's type.
+     * 
+     * ```ts
+     * // NOTE: The .> arrow symbolizes the method-chaining (does it?)
+     * // take : Generator a .> Int -> List a
+     * int(1, 6).take(5); // -> [3, 6, 1, 1, 4]
+     * ```
+     */
+    take: (n: number) => A[],
+
+    /**
+     * Generators are (infinite) iterables of their values.
+     * 
+     * ```ts
+     * for (const roll of int(1, 6)) {
+     *     console.log(roll);
+     *     if (roll === 6) {
+     *         break;
+     *     }
+     * }
+     * 
+     * const [a, b, c] = float(0, 1); // destructures the first three values
+     * ```
+     */
+    [Symbol.iterator]: () => Iterator<A>
+};
+
+/**
+ * Options for `filter` and `filterMap`.
+ */
+export interface FilterOptions {
+    /**
+     * How many values in a row may be rejected before giving up. Defaults to 100.
+     */
+    maxTries?: number
 };
 
+/**
+ * A Sampler produces one value. If it is handed a source, that source is used for
+ * every draw instead of the sources the generator was built with.
+ * This is how `step` threads a `Seed` through a generator.
+ * If it is handed a size, sized generators (see `sized`) scale their values to it.
+ * 
+ * @internal
+ */
+type Sampler<A> = (source?: Source<number>, size?: number) => A;
+
+/**
+ * Keeps the sampler of every generator without exposing it on the generator itself.
+ * 
+ * @internal
+ */
+const samplers = new WeakMap<Generator<any>, Sampler<any>>();
+
 // Isn't this a good example for how beautiful and elegant FP is?
 // It looks a bit ugly in JS/TS without the help of rambda or so.
 // It's 10 lines of code and look what you can build on it just by using and combining it.
@@ -80,246 +163,2166 @@ export interface Generator<A> {
  * Not exporting generate() seems to be closest to keeping the type opaque.
  * @internal
  */
-const generate = <A>(source: Source<A>): Generator<A> => {
+const generate = <A>(sampler: Sampler<A>): Generator<A> => {
     const obj = Object.create(null);
     obj.map = <B>(transformer: (a: A) => B): Generator<B> =>
-        generate(() => transformer(source()));
+        describable(
+            generate((source, size) => transformer(sampler(source, size))),
+            registry => ({ kind: "map", name: nameOf(transformer, registry), generator: describe(obj, registry) })
+        );
 
     obj.then = <B>(transformer: (a: A) => Generator<B>): Generator<B> =>
-        generate(() => transformer(source()).next());
+        describable(
+            generate((source, size) => run(transformer(sampler(source, size)), source, size)),
+            registry => ({ kind: "then", name: nameOf(transformer, registry), generator: describe(obj, registry) })
+        );
+
+    obj.filter = (predicate: (a: A) => boolean, options: FilterOptions = {}): Generator<A> =>
+        shrinkable(
+            generate(retrying(sampler, a => predicate(a) ? a : undefined, options)),
+            a => shrink(obj, a).filter(predicate)
+        );
+
+    obj.filterMap = <B>(transformer: (a: A) => B | undefined, options: FilterOptions = {}): Generator<B> =>
+        generate(retrying(sampler, transformer, options));
 
     obj.next = (): A =>
-        source();
+        sampler();
 
+    obj.take = (n: number): A[] =>
+        Array.from({ length: n }, () => sampler());
+
+    obj[Symbol.iterator] = (): Iterator<A> => ({
+        next: () => ({ done: false, value: sampler() })
+    });
+
+    samplers.set(obj, sampler);
     return obj;
 };
 
+/**
+ * Samples until the transformer returns a value, at most `maxTries` times in a row.
+ * 
+ * @internal
+ */
+const retrying = <A, B>(sampler: Sampler<A>, transformer: (a: A) => B | undefined, options: FilterOptions): Sampler<B> =>
+    (source, size) => {
+        const maxTries = options.maxTries ?? 100;
+        let rejected: A | undefined = undefined;
+        for (let tries = 0; tries < maxTries; tries += 1) {
+            const a = sampler(source, size);
+            const b = transformer(a);
+            if (b !== undefined) {
+                return b;
+            }
+            rejected = a;
+        }
+        throw new RetriesExhaustedError(`filter: rejected ${maxTries} values in a row.`, rejected);
+    };
 
 /**
- * Very simple seeded source for pseudo randomness.
- * Don't use this for any serious involving randomness.
- * (The "simple" is in the function-name to emphasize this.)
+ * Runs a generator once, optionally overriding its sources and with a size.
+ * 
+ * @internal
  */
-export const simpleSeeded = (seed: number): Source<number> => () => {
-    seed = Math.sin(seed) * 10000;
-    return seed - Math.floor(seed);
+const run = <A>(generator: Generator<A>, source?: Source<number>, size?: number): A =>
+    (samplers.get(generator) as Sampler<A>)(source, size);
+
+/**
+ * A Shrinker returns simpler candidates for a generated value, simplest first.
+ * 
+ * @internal
+ */
+type Shrinker<A> = (value: A) => A[];
+
+/**
+ * Keeps the shrinkers of the generators that know how to simplify their values.
+ * 
+ * @internal
+ */
+const shrinkers = new WeakMap<Generator<any>, Shrinker<any>>();
+
+/**
+ * Registers a shrinker for a generator and returns the generator.
+ * 
+ * @internal
+ */
+const shrinkable = <A>(generator: Generator<A>, shrinker: Shrinker<A>): Generator<A> => {
+    shrinkers.set(generator, shrinker);
+    return generator;
 };
 
 /**
- * Create generator for floats in a given range.
+ * Returns simpler values than a value the generator generated, simplest first.
+ * Used by `check` to find a minimal counterexample.
+ * `int`, `float`, `boolean`, `uniform`, `pair` and `list` know how to simplify their values.
+ * Generators created with `map` or `then` can't be simplified and return an empty list.
  * 
  * ```ts
- * // float : Float -> Float -> [-> Source Float] -> Generator Float
+ * // shrink : Generator a -> a -> List a
  * // Example
- * const generator = float(0, 10, simpleSeeded(123));
- * console.log(generator.next()); // -> e.g. 3.2427879012
- * console.log(generator.next()); // -> e.g. 8.1329180219
- * console.log(generator.next()); // -> e.g. 1.4929187987
+ * shrink(int(0, 100), 10); // -> [0, 5, 8, 9]
+ * shrink(uniform("a", ["b", "c"]), "c"); // -> ["a", "b"]
  * ```
  */
-export const float = (min: number, max: number, source: Source<number> = Math.random): Generator<number> =>
-    generate(source)
-        .map(f => min + (max - min) * f);
+export const shrink = <A>(generator: Generator<A>, value: A): A[] => {
+    const shrinker = shrinkers.get(generator) as Shrinker<A> | undefined;
+    return shrinker
+        ? shrinker(value)
+        : [];
+};
 
 /**
- * Create generator for floats in a given range with given precision.
+ * Create a generator that generates the same values as the given generator, but shrinks them with the given function.
+ * Use it to make your own generators (e.g. created with `map`) shrinkable for `check`.
  * 
  * ```ts
- * // floatWithPrecision : Int -> Int -> Int [-> Source Float] -> Generator Float
+ * // withShrinker : Generator a -> (a -> List a) -> Generator a
  * // Example
- * const generator = floatWithPrecision(0, 10, 2, simpleSeeded(123));
- * console.log(generator.next()); // -> e.g. 3.24
- * console.log(generator.next()); // -> e.g. 8.13
- * console.log(generator.next()); // -> e.g. 1.49
+ * const ints = int(0, 100);
+ * const evens = withShrinker(ints.map(x => x * 2), x => shrink(ints, x / 2).map(y => y * 2));
  * ```
+ * 
+ * @param generator Generator for the values.
+ * @param shrinker Returns simpler values than the given value, simplest first.
  */
-export const floatWithPrecision = (min: number, max: number, precision: number, source: Source<number> = Math.random): Generator<number> =>
-    float(min, max, source)
-        .map(toPrecision(precision));
+export const withShrinker = <A>(generator: Generator<A>, shrinker: (value: A) => A[]): Generator<A> =>
+    shrinkable(generate((source, size) => run(generator, source, size)), shrinker);
 
 /**
- * Returns float with precision digits after the decimal point.
- * 
- * @internal
+ * A JSON-serializable description of a generator, see `describe`.
+ * Sources aren't part of it: `fromDescription` builds every generator with the source it is given.
  */
-const toPrecision = (precision: number) => (x: number): number => {
-    const power = 10 ** precision;
-    return Math.floor(x * power) / power;
+export type Description =
+    | { kind: "int", min: number, max: number }
+    | { kind: "float", min: number, max: number }
+    | { kind: "floatWithPrecision", min: number, max: number, precision: number }
+    | { kind: "constant", value: unknown }
+    | { kind: "uniform", values: unknown[] }
+    | { kind: "weighted", values: Array<[unknown, number]> }
+    | { kind: "list", length: number, generator: Description }
+    | { kind: "pair", left: Description, right: Description }
+    | { kind: "map", name: string, generator: Description }
+    | { kind: "then", name: string, generator: Description };
+
+/**
+ * Named functions for the `map` and `then` steps of a description.
+ * The same registry is used to `describe` a generator and to rebuild it with `fromDescription`.
+ */
+export interface Registry {
+    [name: string]: (value: any) => any
 };
 
 /**
- * Create generator for ints in given range.
+ * Thrown by `describe` for generators without a description
+ * and by `fromDescription` for descriptions it can't rebuild.
+ */
+export class DescriptionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "DescriptionError";
+    }
+}
+
+/**
+ * A Describer returns the description of a generator, looking up the names of its functions in a registry.
  * 
- * ```ts
- * // int : Int -> Int [-> Source Float] -> Generator Int
- * // Example
- * const generator = int(0, 10, simpleSeeded(123));
- * console.log(generator.next()); // -> e.g. 3
- * console.log(generator.next()); // -> e.g. 8
- * console.log(generator.next()); // -> e.g. 1
- * ```
+ * @internal
  */
-export const int = (min: number, max: number, source: Source<number> = Math.random): Generator<number> =>
-    floatWithPrecision(min, max + 1, 0, source);
+type Describer = (registry: Registry) => Description;
 
+/**
+ * Keeps the describers of the generators that have a description.
+ * 
+ * @internal
+ */
+const describers = new WeakMap<Generator<any>, Describer>();
 
 /**
- * Create generator for boolean values.
+ * Registers a describer for a generator and returns the generator.
  * 
- * ```ts
- * // boolean : [Source Float] -> Generator bool
- * // Example:
- * const generator = boolean(simpleSeeded(123));
- * console.log(generator.next()); // -> e.g. false
- * console.log(generator.next()); // -> e.g. true
- * console.log(generator.next()); // -> e.g. false
+ * @internal
+ */
+const describable = <A>(generator: Generator<A>, describer: Describer): Generator<A> => {
+    describers.set(generator, describer);
+    return generator;
+};
+
+/**
+ * The name of a function in a registry.
  * 
+ * @internal
  */
-export const boolean = (source: Source<number> = Math.random): Generator<boolean> =>
-    generate(source)
-        .map(f => f > .5);
+const nameOf = (f: Function, registry: Registry): string => {
+    const name = Object.keys(registry).find(key => registry[key] === f);
+    if (name === undefined) {
+        throw new DescriptionError(`describe: the function ${f.name || "(anonymous)"} passed to map or then isn't in the registry.`);
+    }
+    return name;
+};
 
 /**
- * Create generator for values with equal probability.
+ * Returns a JSON-serializable description of a generator, e.g. to log it, diff it, store it in a database or send it to a worker.
+ * `int`, `float`, `floatWithPrecision`, `constant`, `uniform`, `weighted`, `list` and `pair` have a description,
+ * and so do generators created with `map` and `then` if their function is in the registry.
+ * Values of `constant`, `uniform` and `weighted` are put into the description as they are, so they should be JSON values.
+ * Throws a `DescriptionError` for every other generator.
  * 
  * ```ts
- * // uniform : a -> Array a [-> Source Float] -> Generator a
+ * // describe : Generator a [-> Registry] -> Description
  * // Example
- * type Suit = "Club" | "Diamond" | "Spade" | "Heart";
- * 
- * const suits:Generator<Suit> = uniform("Club", ["Diamond", "Spade", "Heart"], simpleSeed(123));
- * console.log(suits()); // "Club"
- * console.log(suits()); // "Diamond"
- * console.log(suits()); // "Heart"
+ * const registry = { double: (x: number) => 2 * x };
+ * const evens = list(3, int(0, 10).map(registry.double));
+ * JSON.stringify(describe(evens, registry));
+ * // -> {"kind":"list","length":3,"generator":{"kind":"map","name":"double","generator":{"kind":"int","min":0,"max":10}}}
  * ```
- * 
- * **NOTE:** Why not have uniform `<A>uniform(list: Array<A>): Generator<A>` as the API? It looks a little prettier in code, but it leads to an awkward question. What do you do with `uniform([])`? How can it produce a value? The current API guarantees that we always have at least one value, so we never run into that question!
  */
-export const uniform = <A>(first: A, rest: Array<A>, source: Source<number> = Math.random): Generator<A> =>
-    rest.length === 0
-        ? constant(first)
-        : int(0, rest.length, source)
-            .map(i => [first, ...rest][i]);
+export const describe = <A>(generator: Generator<A>, registry: Registry = {}): Description => {
+    const describer = describers.get(generator);
+    if (!describer) {
+        throw new DescriptionError("describe: the generator has no description. Only int, float, floatWithPrecision, constant, uniform, weighted, list, pair, map and then have one.");
+    }
+    return describer(registry);
+};
 
+/**
+ * Checks the fields of one node of a description, e.g. one parsed from JSON. `path` names the node in error messages.
+ * 
+ * @internal
+ */
+const checkDescription: (d: unknown, path: string) => asserts d is Description = (d, path) => {
+    if (d === null || typeof d !== "object" || Array.isArray(d)) {
+        throw new DescriptionError(`fromDescription: ${path} must be a description, got ${JSON.stringify(d)}.`);
+    }
+    const node = d as { [key: string]: unknown };
+    const expect = (key: string, valid: (value: unknown) => boolean, expected: string) => {
+        if (!valid(node[key])) {
+            throw new DescriptionError(`fromDescription: ${path}.${key} must be ${expected}, got ${JSON.stringify(node[key])}.`);
+        }
+    };
+    const isNumber = (value: unknown) => typeof value === "number";
+    const isNode = (value: unknown) => value !== null && typeof value === "object";
+    switch (node.kind) {
+        case "int":
+        case "float":
+            expect("min", isNumber, "a number");
+            expect("max", isNumber, "a number");
+            break;
+        case "floatWithPrecision":
+            expect("min", isNumber, "a number");
+            expect("max", isNumber, "a number");
+            expect("precision", isNumber, "a number");
+            break;
+        case "constant":
+            expect("value", value => value !== undefined, "a value");
+            break;
+        case "uniform":
+            expect("values", value => Array.isArray(value) && value.length > 0, "a non-empty list");
+            break;
+        case "weighted":
+            expect(
+                "values",
+                value => Array.isArray(value) && value.length > 0 && value.every(entry => Array.isArray(entry) && entry.length === 2 && isNumber(entry[1])),
+                "a non-empty list of [value, weight] pairs"
+            );
+            break;
+        case "list":
+            expect("length", value => typeof value === "number" && Number.isSafeInteger(value) && value >= 0, "a non-negative integer");
+            expect("generator", isNode, "a description");
+            break;
+        case "pair":
+            expect("left", isNode, "a description");
+            expect("right", isNode, "a description");
+            break;
+        case "map":
+        case "then":
+            expect("name", value => typeof value === "string", "a string");
+            expect("generator", isNode, "a description");
+            break;
+        default:
+            throw new DescriptionError(`fromDescription: unknown kind of generator ${JSON.stringify(node.kind)} at ${path}.`);
+    }
+};
 
 /**
- * Create generator for values with a *weighted* probabilty.
+ * Rebuilds a generator from its description (see `describe`), looking up the functions of `map` and `then` in the registry.
+ * Throws a `DescriptionError` if a function isn't in the registry or the description is malformed,
+ * e.g. a `list` without `generator` or a `uniform` without values.
  * 
  * ```ts
- * // weighted : [a, Float] -> Array [a, Float] [-> Source Float] -> Generator a
+ * // fromDescription : Description [-> Registry] [-> Source Float] -> Generator a
  * // Example
- * // A loaded dice that lands on 5 and 6 more often:
- * const loadedDice =
- *    weighted( ["1", 10], [["2", 10], ["3", 10], ["4", 10], ["5", 20], ["6", 40]);
- * console.log(loadedDice.next()); // -> 5
- * console.log(loadedDice.next()); // -> 2
- * console.log(loadedDice.next()); // -> 6
- * console.log(loadedDice.next()); // -> 6
+ * const stored = JSON.parse(await db.get("generators/evens"));
+ * const evens = fromDescription<number[]>(stored, { double: (x: number) => 2 * x }, pcg32(42));
  * ```
  * 
- * **NOTE**: The weights in the example add up to 100, but that's not necessary. The weights are added up into a total, and from there, the probability of each case is `weight/total`.
- 
+ * @param description Description of the generator.
+ * @param registry Functions for the `map` and `then` steps.
+ * @param source Source for every generator in the description.
  */
-export const weighted = <A>(first: [A, number], rest: Array<[A, number]>, source: Source<number> = Math.random): Generator<A> => {
-    if (rest.length === 0) {
-        return constant(first[0]);
-    }
-    else {
-        const sum =
-            rest.reduce((acc, pair) => acc + pair[1], first[1]);
-
-
-        const normalized: Array<[A, number]> =
-            continiousSum([first, ...rest]);
+export const fromDescription = <A = unknown>(description: Description, registry: Registry = {}, source: Source<number> = Math.random): Generator<A> => {
+    const lookup = (name: string) => {
+        const f = registry[name];
+        if (typeof f !== "function") {
+            throw new DescriptionError(`fromDescription: there is no function named "${name}" in the registry.`);
+        }
+        return f;
+    };
+    const build = (d: unknown, path: string): Generator<any> => {
+        checkDescription(d, path);
+        switch (d.kind) {
+            case "int":
+                return int(d.min, d.max, source);
+            case "float":
+                return float(d.min, d.max, source);
+            case "floatWithPrecision":
+                return floatWithPrecision(d.min, d.max, d.precision, source);
+            case "constant":
+                return constant(d.value);
+            case "uniform":
+                return uniform(d.values[0], d.values.slice(1), source);
+            case "weighted":
+                return weighted(d.values[0], d.values.slice(1), source);
+            case "list":
+                return list(d.length, build(d.generator, `${path}.generator`));
+            case "pair":
+                return pair(build(d.left, `${path}.left`), build(d.right, `${path}.right`));
+            case "map":
+                return build(d.generator, `${path}.generator`).map(lookup(d.name));
+            case "then":
+                return build(d.generator, `${path}.generator`).then(lookup(d.name));
+        }
+    };
+    return build(description, "description");
+};
 
-        //console.log(normalized);
-        return float(0, sum, source)
-            .map(x => getByWeight(normalized, x));
+/**
+ * A Filler fills a typed array with values of a generator straight from the generator's source,
+ * without the closures every single value passes through otherwise.
+ * 
+ * @internal
+ */
+type Filler = (buffer: Float64Array | Int32Array) => void;
 
-    }
-}
+/**
+ * Keeps the fillers of the generators that have a fast path for `fillFloat64` and `fillInt32`.
+ * 
+ * @internal
+ */
+const fillers = new WeakMap<Generator<number>, Filler>();
 
-const continiousSum = <A>(source: Array<[A, number]>, target: Array<[A, number]> = [], i: number = 0, sum: number = 0): Array<[A, number]> =>
-    i === source.length
-        ? target
-        : continiousSum(source, [...target, [source[i][0], source[i][1] + sum]], i + 1, sum + source[i][1]);
+/**
+ * Registers a filler for a generator and returns the generator.
+ * 
+ * @internal
+ */
+const fillable = (generator: Generator<number>, filler: Filler): Generator<number> => {
+    fillers.set(generator, filler);
+    return generator;
+};
 
-const getByWeight = <A>(source: Array<[A, number]>, weight: number, i: number = 0): A => {
-    if (i < source.length) {
-       // console.log(weight);
-        return weight <= source[i][1]
-            ? source[i][0]
-            : getByWeight(source, weight, i + 1);
+/**
+ * Fills a buffer with values of a generator, with its filler if it has one.
+ * 
+ * @internal
+ */
+const fill = <T extends Float64Array | Int32Array>(generator: Generator<number>, buffer: T): T => {
+    const filler = fillers.get(generator);
+    if (filler) {
+        filler(buffer);
     }
     else {
-        throw new Error("Uhhh... bad!!!!");
+        for (let i = 0; i < buffer.length; i += 1) {
+            buffer[i] = generator.next();
+        }
     }
+    return buffer;
 };
 
 /**
- * Create a generator for the same value every time.
+ * Candidates between target and value, getting closer to value by halving the distance.
+ * 
+ * @internal
+ */
+const shrinkTowards = (target: number, value: number): number[] => {
+    const result = [];
+    for (let distance = value - target; Math.abs(distance) >= 1; distance = Math.trunc(distance / 2)) {
+        result.push(value - distance);
+    }
+    return result;
+};
+
+/**
+ * The number closest to 0 within [min, max].
+ * 
+ * @internal
+ */
+const closestToZero = (min: number, max: number): number =>
+    Math.min(Math.max(0, min), max);
+
+/**
+ * Create a generator from a function that draws as many numbers from a source as it needs.
+ * The draw function gets the source given here - or the source of the `Seed` when the generator is run by `step`.
+ * This is what all the built-in generators are made of. Use it for generators that can't be built by combining other generators.
  * 
  * ```ts
- * // constant : a -> Generator a
- * // Example
- * const alwaysHelloWorld = constant("Hello World!");
- * console.log(alwaysHelloWorld.next()); // -> "Hello World!";
- * console.log(alwaysHelloWorld.next()); // -> "Hello World!";
- * console.log(alwaysHelloWorld.next()); // -> "Hello World!";
+ * // fromSource : (Source Float -> a) [-> Source Float] -> Generator a
+ * // Example: count how many coin flips it takes to get heads
+ * const flipsUntilHeads = fromSource(s => {
+ *     let flips = 1;
+ *     while (s() < .5) {
+ *         flips += 1;
+ *     }
+ *     return flips;
+ * });
  * ```
  * 
- * **NOTE:** You might be asking yourself "But why?". It is useful. See `uniform` and `weighted` for examples.
+ * **NOTE:** Only draw from the source passed to the draw function, otherwise `step` can't replay your generator.
  */
-export const constant = <A>(value: A): Generator<A> =>
-    generate(() => value);
+export const fromSource = <A>(draw: (source: Source<number>) => A, source: Source<number> = Math.random): Generator<A> =>
+    generate(override => draw(override || source));
 
 /**
- * Create a generator for a pair of random values.
- * A common use of this might be to generate a point in a certain 2D space:
+ * Generate a value, taking every draw from the given source instead of the sources the generator was built with.
+ * Use it to run generators you don't build yourself with a seeded source, e.g. in tests.
  * 
  * ```ts
- * const points: Generator<[number, number]> = pair(int(0,100), int(0,100));
- * 
- * console.log(points()); // [ 73, 21 ]
- * console.log(points()); // [ 65, 68 ]
- * console.log(points()); // [ 7, 28 ]
+ * // nextWith : Generator a -> Source Float -> a
+ * // Example
+ * const dice = list(3, int(1, 6));
+ * nextWith(dice, pcg32(42)); // -> the same list for every run
  * ```
- * @param leftGenerator Generator for the left/first value.
- * @param rightGenerator Generator for the right/second value.
  */
-export const pair = <A, B>(leftGenerator: Generator<A>, rightGenerator: Generator<B>): Generator<[A, B]> =>
-    generate(() => [leftGenerator.next(), rightGenerator.next()]);
+export const nextWith = <A>(generator: Generator<A>, source: Source<number>): A =>
+    run(generator, source);
 
+/**
+ * A Seed is the complete state of a random number generator.
+ * Treat it as opaque: create it with `initialSeed`, and pass it along with `step`.
+ * Seeds are plain immutable data, so they can be stored (e.g. in your application state) and replayed.
+ */
+export interface Seed {
+    readonly state: number,
+    readonly increment: number
+};
 
 /**
- * Create a generator for lists/arrays of random values.
+ * `Math.imul`, looked up once: the random number generators call it for every word,
+ * and looking up `Math` on the global object is slow in sandboxes like Node's `vm` contexts (which Jest runs tests in).
  * 
- * ```ts
- * const lists: Generator<number[]> = list(5, int(0,100));
- * 
- * console.log(lists()); // [ 23, 25, 1, 76, 34 ]
- * console.log(lists()); // [ 3, 38, 33, 12, 68 ]
- * console.log(lists()); // [ 40, 60, 90, 37, 86 ]
- * ```
+ * @internal
+ */
+const imul = Math.imul;
+
+/**
+ * One step of the LCG underlying the PCG variant elm/random uses.
  * 
- * If you want to generate a list with a random length, you need to use `then`:
+ * @internal
+ */
+const advance = (state: number, increment: number): number =>
+    (imul(state, 1664525) + increment) >>> 0;
+
+/**
+ * @internal
+ */
+const nextSeed = (seed: Seed): Seed => ({
+    state: advance(seed.state, seed.increment),
+    increment: seed.increment
+});
+
+/**
+ * Permutes a state into an unsigned 32-bit integer (RXS-M-XS output function).
+ * The multiplication is a float multiplication (not `Math.imul`) on purpose: that is what elm/random compiles to,
+ * and its low bits differ from the exact product, so only this reproduces elm/random's words.
+ *
+ * @internal
+ */
+const permute = (state: number): number => {
+    const word = (state ^ (state >>> ((state >>> 28) + 4))) * 277803737;
+    return ((word >>> 22) ^ word) >>> 0;
+};
+
+/**
+ * Create a seed from an integer. The same integer always results in the same seed.
  * 
  * ```ts
- * const lists = then(l => list(l, int(0,100)), int(1,10));
- * 
- * console.log(lists()); // [ 39, 35, 31, 14, 34, 99 ]
- * console.log(lists()); // [ 82, 52, 96, 20 ]
- * console.log(lists()); // [ 86, 86, 94, 44, 55, 23, 7, 23, 86 ]
+ * // initialSeed : Int -> Seed
+ * // Example
+ * const seed = initialSeed(42);
+ * // or seed it with the current time
+ * const seed2 = initialSeed(Date.now());
+ * ```
+ */
+export const initialSeed = (x: number): Seed => {
+    const seed = nextSeed({ state: 0, increment: 1013904223 });
+    return nextSeed({ state: (seed.state + x) >>> 0, increment: seed.increment });
+};
+
+/**
+ * Run a generator with a seed. Returns the generated value and the seed to use for the next step.
+ * The same generator and seed always produce the same value and the same new seed.
+ * 
+ * ```ts
+ * // step : Generator a -> Seed -> (a, Seed)
+ * // Example
+ * const [roll, seed1] = step(int(1, 6), initialSeed(42));
+ * const [nextRoll, seed2] = step(int(1, 6), seed1);
+ * // Replaying from the same seed gives the same roll again:
+ * step(int(1, 6), seed1); // -> [nextRoll, seed2]
+ * ```
+ * 
+ * **NOTE:** The seed replaces every source the generator (and every generator it is made of) was built with.
+ * So `step(float(0, 1, pcg32(123)), seed)` draws from `seed`, not from `pcg32(123)`.
+ * 
+ * Pass a size to scale sized generators (see `sized`), e.g. to generate small values first and bigger ones later:
+ * 
+ * ```ts
+ * const [smallList] = step(listOf({ min: 0 }, int(0, 9)), seed, 3);
+ * const [bigList] = step(listOf({ min: 0 }, int(0, 9)), seed, 1000);
+ * ```
+ */
+export const step = <A>(generator: Generator<A>, seed: Seed, size?: number): [A, Seed] => {
+    let state = seed.state;
+    const word = (): number => {
+        const result = permute(state);
+        state = advance(state, seed.increment);
+        return result;
+    };
+    // floats with 53 random bits, taken from two words - like elm/random does
+    const source: WordSource = Object.assign(
+        () => ((word() & 0x03FFFFFF) * 134217728 + (word() & 0x07FFFFFF)) / 9007199254740992,
+        { word }
+    );
+    const value = run(generator, source, size);
+    return [value, { state, increment: seed.increment }];
+};
+
+/**
+ * Create a generator for seeds that are independent of the stream they are drawn from.
+ * Each seed takes exactly three words from the source, no matter what it is used for later.
+ * 
+ * ```ts
+ * // independentSeed : [Source Float] -> Generator Seed
+ * // Example: give every enemy its own stream, so adding enemies does not change the existing ones.
+ * const [enemySeeds, seed1] = step(list(3, independentSeed()), initialSeed(42));
+ * ```
+ */
+export const independentSeed = (source: Source<number> = Math.random): Generator<Seed> =>
+    fromSource(drawSeed, source);
+
+/**
+ * Draws a seed like elm/random's independentSeed: a new state and a new (odd) increment.
+ * A different increment means a different stream, not just a different position in the same one.
+ * 
+ * @internal
+ */
+const drawSeed = (source: Source<number>): Seed => {
+    const state = nextWord(source);
+    const b = nextWord(source);
+    const c = nextWord(source);
+    return nextSeed({ state, increment: ((b ^ c) | 1) >>> 0 });
+};
+
+/**
+ * Split a seed into two seeds of independent streams.
+ * Returns the derived seed and the seed to continue the original stream with.
+ * 
+ * ```ts
+ * // split : Seed -> (Seed, Seed)
+ * // Example
+ * const [forTheMap, seed1] = split(initialSeed(42));
+ * const [map] = step(mapGenerator, forTheMap);
+ * const [player, seed2] = step(playerGenerator, seed1);
+ * ```
+ */
+export const split = (seed: Seed): [Seed, Seed] =>
+    step(independentSeed(), seed);
+
+/**
+ * Very simple seeded source for pseudo randomness.
+ * Don't use this for any serious involving randomness.
+ * (The "simple" is in the function-name to emphasize this.)
+ * 
+ * @deprecated Use `pcg32`, `xoshiro128ss` or `splitmix32` instead.
+ */
+export const simpleSeeded = (seed: number): Source<number> => () => {
+    seed = Math.sin(seed) * 10000;
+    return seed - Math.floor(seed);
+};
+
+/**
+ * A source of floats in [0,1) that can also hand out the unsigned 32-bit integers the floats are made of.
+ * `word()` returns such an integer.
+ */
+export interface WordSource extends Source<number> {
+    word: Source<number>,
+
+    /**
+     * Fills a buffer with the next words - the same words calling `word()` for every element would return,
+     * but in one loop. `fillFloat64` and `fillInt32` use it when it's there.
+     */
+    words?: (buffer: Uint32Array) => void,
+
+    /**
+     * Fills a buffer with the next floats - the same floats calling the source for every element would return.
+     */
+    floats?: (buffer: Float64Array) => void
+};
+
+/**
+ * A pseudo random number generator as functions of its state: one that draws a word, and loops that fill buffers.
+ * `floats` fills a buffer with floats in [min, min + scale) - the same values `float` gives one by one,
+ * in a single pass without any closure per value.
+ * 
+ * Every algorithm writes its loops out in their own function literals:
+ * V8 keeps the type feedback of a function literal for all closures created from it,
+ * so loops shared by several algorithms (or created by a common factory) would call their words polymorphically and run slower.
+ * 
+ * @internal
+ */
+interface Algorithm {
+    word: (state: Uint32Array) => number,
+    words: (state: Uint32Array, buffer: Uint32Array) => void,
+    floats: (state: Uint32Array, buffer: Float64Array, min: number, scale: number) => void
+};
+
+/**
+ * The algorithm and the state behind the sources created by `pcg32`, `splitmix32` and `xoshiro128ss`,
+ * so `float` and `int` can fill buffers with their loops.
+ * 
+ * @internal
+ */
+const algorithms = new WeakMap<Source<number>, [Algorithm, Uint32Array]>();
+
+/**
+ * Turns an algorithm and its state into a source of floats in [0,1), one word per float.
+ * 
+ * @internal
+ */
+const fromWords = (algorithm: Algorithm, state: Uint32Array): WordSource => {
+    const source = Object.assign(() => algorithm.word(state) / 4294967296, {
+        word: () => algorithm.word(state),
+        words: (buffer: Uint32Array) => algorithm.words(state, buffer),
+        floats: (buffer: Float64Array) => algorithm.floats(state, buffer, 0, 1)
+    });
+    algorithms.set(source, [algorithm, state]);
+    return source;
+};
+
+/**
+ * How many values the bulk paths draw at once.
+ * The loops of the algorithms run in chunks on purpose: V8 then optimizes them for calls,
+ * rather than in the middle of their first call (before any feedback on the state), which gives much slower code.
+ * 
+ * @internal
+ */
+const chunkSize = 4096;
+
+/**
+ * Draws an unsigned 32-bit integer from a source. Uses `word` if the source is a `WordSource`.
+ * 
+ * @internal
+ */
+const nextWord = (source: Source<number>): number => {
+    const word = (source as Partial<WordSource>).word;
+    return word
+        ? word()
+        : Math.floor(source() * 4294967296) >>> 0;
+};
+
+/**
+ * @internal
+ */
+const rotl = (x: number, k: number): number =>
+    (x << k) | (x >>> (32 - k));
+
+/**
+ * Seeded source using the PCG variant (RXS-M-XS, 32-bit state) that elm/random uses.
+ * The n-th word of `pcg32(x)` is the n-th word of `initialSeed(x)` - and of `Random.initialSeed x` in elm/random.
+ * 
+ * ```ts
+ * // pcg32 : Int -> Source Float
+ * // Example
+ * const generator = float(0, 10, pcg32(123));
+ * ```
+ */
+export const pcg32 = (seed: number): WordSource => {
+    const initial = initialSeed(seed);
+    return fromWords(pcgAlgorithm, new Uint32Array([initial.state, initial.increment]));
+};
+
+/**
+ * The state is the state and the increment of a seed.
+ * 
+ * @internal
+ */
+const pcgAlgorithm: Algorithm = {
+    word: state => {
+        const word = permute(state[0]);
+        state[0] = advance(state[0], state[1]);
+        return word;
+    },
+    words: (state, buffer) => {
+        let s = state[0];
+        const increment = state[1];
+        for (let i = 0; i < buffer.length; i += 1) {
+            buffer[i] = permute(s);
+            s = advance(s, increment);
+        }
+        state[0] = s;
+    },
+    floats: (state, buffer, min, scale) => {
+        let s = state[0];
+        const increment = state[1];
+        for (let i = 0; i < buffer.length; i += 1) {
+            buffer[i] = min + scale * (permute(s) / 4294967296);
+            s = advance(s, increment);
+        }
+        state[0] = s;
+    }
+};
+
+/**
+ * Seeded source using splitmix32: a Weyl sequence fed through the murmur3 finalizer.
+ * Very fast and well suited to turn a single number into seeds for other sources.
+ * 
+ * ```ts
+ * // splitmix32 : Int -> Source Float
+ * // Example
+ * const generator = int(1, 6, splitmix32(123));
+ * ```
+ */
+export const splitmix32 = (seed: number): WordSource => {
+    return fromWords(splitmixAlgorithm, new Uint32Array([seed >>> 0]));
+};
+
+/**
+ * @internal
+ */
+const splitmixWord = (state: Uint32Array): number => {
+    state[0] += 0x9E3779B9;
+    let z = state[0];
+    z = imul(z ^ (z >>> 16), 0x85EBCA6B);
+    z = imul(z ^ (z >>> 13), 0xC2B2AE35);
+    return (z ^ (z >>> 16)) >>> 0;
+};
+
+/**
+ * @internal
+ */
+const splitmixAlgorithm: Algorithm = {
+    word: splitmixWord,
+    words: (state, buffer) => {
+        for (let i = 0; i < buffer.length; i += 1) {
+            buffer[i] = splitmixWord(state);
+        }
+    },
+    floats: (state, buffer, min, scale) => {
+        for (let i = 0; i < buffer.length; i += 1) {
+            buffer[i] = min + scale * (splitmixWord(state) / 4294967296);
+        }
+    }
+};
+
+/**
+ * Seeded source using xoshiro128** with a period of 2^128 - 1.
+ * A single number as seed is expanded into the 128-bit state with `splitmix32`.
+ * You can also pass the four 32-bit words of the state directly - they must not all be zero.
+ * 
+ * ```ts
+ * // xoshiro128ss : Int -> Source Float
+ * // Example
+ * const generator = boolean(xoshiro128ss(123));
+ * ```
+ */
+export const xoshiro128ss = (seed: number | [number, number, number, number]): WordSource => {
+    const s = new Uint32Array(
+        typeof seed === "number"
+            ? Array(4).fill(0).map(splitmix32(seed).word)
+            : seed.map(x => x >>> 0)
+    );
+
+    if (s.every(x => x === 0)) {
+        throw new Error("xoshiro128ss: the state must not be all zeros.");
+    }
+
+    return fromWords(xoshiroAlgorithm, s);
+};
+
+/**
+ * @internal
+ */
+const xoshiroWord = (s: Uint32Array): number => {
+    const result = imul(rotl(imul(s[1], 5), 7), 9) >>> 0;
+    const t = s[1] << 9;
+    s[2] ^= s[0];
+    s[3] ^= s[1];
+    s[1] ^= s[2];
+    s[0] ^= s[3];
+    s[2] ^= t;
+    s[3] = rotl(s[3], 11);
+    return result;
+};
+
+/**
+ * @internal
+ */
+const xoshiroAlgorithm: Algorithm = {
+    word: xoshiroWord,
+    words: (state, buffer) => {
+        for (let i = 0; i < buffer.length; i += 1) {
+            buffer[i] = xoshiroWord(state);
+        }
+    },
+    floats: (state, buffer, min, scale) => {
+        for (let i = 0; i < buffer.length; i += 1) {
+            buffer[i] = min + scale * (xoshiroWord(state) / 4294967296);
+        }
+    }
+};
+
+/**
+ * Source backed by a cryptographically secure random number generator:
+ * `crypto.getRandomValues` where available (browsers, Deno, Node >= 19), Node's `crypto` module otherwise.
+ * Words are fetched in batches, floats are made of two words (53 random bits).
+ * 
+ * ```ts
+ * // cryptoSource : [Int] -> Source Float
+ * // Example: a 16 character invite code
+ * const chars = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+ * const inviteCode =
+ *    list(16, int(0, chars.length - 1, cryptoSource()))
+ *       .map(indexes => indexes.map(i => chars[i]).join(""));
+ * ```
+ * 
+ * @param batchSize Number of 32-bit words fetched at once (at most 16384).
+ */
+export const cryptoSource = (batchSize: number = 1024): WordSource => {
+    const fill = getRandomValues();
+    const buffer = new Uint32Array(Math.max(1, Math.min(16384, Math.floor(batchSize))));
+    let i = buffer.length;
+
+    const word = (): number => {
+        if (i === buffer.length) {
+            fill(buffer);
+            i = 0;
+        }
+        const result = buffer[i];
+        i += 1;
+        return result;
+    };
+
+    return Object.assign(
+        () => ((word() & 0x03FFFFFF) * 134217728 + (word() & 0x07FFFFFF)) / 9007199254740992,
+        { word }
+    );
+};
+
+/**
+ * Finds a function that fills a Uint32Array with cryptographically secure random values.
+ * 
+ * @internal
+ */
+const getRandomValues = (): ((buffer: Uint32Array) => void) => {
+    if (typeof crypto !== "undefined" && typeof crypto.getRandomValues === "function") {
+        return buffer => crypto.getRandomValues(buffer);
+    }
+    else if (typeof require === "function") {
+        const nodeCrypto = require("crypto");
+        return buffer => nodeCrypto.randomFillSync(buffer);
+    }
+    else {
+        throw new Error("cryptoSource: neither crypto.getRandomValues nor Node's crypto module is available.");
+    }
+};
+
+/**
+ * A source that logs every draw taken from it, see `recording`.
+ */
+export interface RecordingSource extends WordSource {
+    /**
+     * Every draw so far, in order: floats for calls of the source, unsigned 32-bit integers for calls of `word()`.
+     */
+    log: number[]
+};
+
+/**
+ * Thrown by a `replaying` source when a generator takes more draws than the log holds.
+ */
+export class ReplayExhaustedError extends Error {
+    constructor(message: string, readonly length: number) {
+        super(message);
+        this.name = "ReplayExhaustedError";
+    }
+}
+
+/**
+ * Wrap a source so that it logs every draw taken from it. The draws themselves are unchanged.
+ * Feed the log to `replaying` to get exactly the same draws again.
+ * 
+ * ```ts
+ * // recording : Source Float -> RecordingSource
+ * // Example
+ * const source = recording(Math.random);
+ * const dice = list(3, int(1, 6, source));
+ * console.log(dice.next()); // -> e.g. [ 4, 1, 6 ]
+ * console.log(source.log); // -> e.g. [ 2254311933, 3516, 4198463015 ]
+ * ```
+ */
+export const recording = (source: Source<number>): RecordingSource => {
+    const log: number[] = [];
+    const record = (x: number): number => {
+        log.push(x);
+        return x;
+    };
+    return Object.assign(
+        () => record(source()),
+        { word: () => record(nextWord(source)), log }
+    );
+};
+
+/**
+ * Create a source that hands out the draws of a log (see `recording` and `trace`), in order.
+ * Throws a `ReplayExhaustedError` once the log is used up.
+ * 
+ * ```ts
+ * // replaying : List Float -> Source Float
+ * // Example: the values of a bug report
+ * const dice = list(3, int(1, 6, replaying([2254311933, 3516, 4198463015])));
+ * console.log(dice.next()); // -> [ 4, 1, 6 ]
+ * ```
+ */
+export const replaying = (log: number[]): WordSource => {
+    let i = 0;
+    const next = (): number => {
+        if (i >= log.length) {
+            throw new ReplayExhaustedError(`replaying: all ${log.length} draws of the log are used up.`, log.length);
+        }
+        i += 1;
+        return log[i - 1];
+    };
+    return Object.assign(next, { word: next });
+};
+
+/**
+ * A generated value together with every draw it was made of, see `trace`.
+ */
+export interface Traced<A> {
+    value: A,
+    draws: number[]
+};
+
+/**
+ * Generate a value and log every draw it was made of. The draws are taken from the given source,
+ * which replaces the sources of the generator (like the seed of `step` does).
+ * Hand the draws to `replay` to get the same value again, e.g. in a bug report.
+ * 
+ * ```ts
+ * // trace : Generator a [-> Source Float] -> Traced a
+ * // Example
+ * const { value, draws } = trace(pair(int(0, 9), float(0, 1)));
+ * console.log(value); // -> e.g. [ 7, 0.3306 ]
+ * console.log(draws); // -> e.g. [ 3296715321, 0.3306 ]
+ * ```
+ */
+export const trace = <A>(generator: Generator<A>, source: Source<number> = Math.random): Traced<A> => {
+    const recorder = recording(source);
+    const value = run(generator, recorder);
+    return { value, draws: recorder.log };
+};
+
+/**
+ * Generate the value the draws of a `trace` were taken for.
+ * Throws a `ReplayExhaustedError` if the generator needs more draws, e.g. because it was changed since.
+ * 
+ * ```ts
+ * // replay : Generator a -> List Float -> a
+ * // Example
+ * const { value, draws } = trace(users);
+ * console.log(replay(users, draws)); // -> the same value
+ * ```
+ */
+export const replay = <A>(generator: Generator<A>, draws: number[]): A =>
+    run(generator, replaying(draws));
+
+/**
+ * Create generator for floats in a given range.
+ * 
+ * ```ts
+ * // float : Float -> Float -> [-> Source Float] -> Generator Float
+ * // Example
+ * const generator = float(0, 10, pcg32(123));
+ * console.log(generator.next()); // -> e.g. 3.2427879012
+ * console.log(generator.next()); // -> e.g. 8.1329180219
+ * console.log(generator.next()); // -> e.g. 1.4929187987
+ * ```
+ */
+export const float = (min: number, max: number, source: Source<number> = Math.random): Generator<number> =>
+    describable(
+        fillable(
+            shrinkable(
+                fromSource(s => min + (max - min) * s(), source),
+                shrinkFloat(Math.min(min, max), Math.max(min, max))
+            ),
+            buffer => fillFloats(min, max, source, buffer)
+        ),
+        () => ({ kind: "float", min, max })
+    );
+
+/**
+ * Fills a buffer with floats in [min, max): with the loop of the algorithm behind a seeded source,
+ * else from the bulk `floats` of the source if it has them.
+ * 
+ * @internal
+ */
+const fillFloats = (min: number, max: number, source: Source<number>, buffer: Float64Array | Int32Array): void => {
+    const scale = max - min;
+    const seeded = algorithms.get(source);
+    const floats = (source as Partial<WordSource>).floats;
+    if (seeded && buffer instanceof Float64Array) {
+        const [algorithm, state] = seeded;
+        for (let i = 0; i < buffer.length; i += chunkSize) {
+            algorithm.floats(state, buffer.subarray(i, i + chunkSize), min, scale);
+        }
+    }
+    else if (floats && buffer instanceof Float64Array) {
+        floats(buffer);
+        for (let i = 0; i < buffer.length; i += 1) {
+            buffer[i] = min + scale * buffer[i];
+        }
+    }
+    else {
+        for (let i = 0; i < buffer.length; i += 1) {
+            buffer[i] = min + scale * source();
+        }
+    }
+};
+
+/**
+ * Shrinks to the target, then to the int part of the value, then halves the distance to the target a few times.
+ * 
+ * @internal
+ */
+const shrinkFloat = (min: number, max: number) => (value: number): number[] => {
+    const target = closestToZero(min, max);
+    const result = [target, Math.trunc(value)];
+    for (let i = 1; i <= 8; i += 1) {
+        result.push(value - (value - target) / 2 ** i);
+    }
+    return result.filter((x, i) =>
+        x !== value
+        && result.indexOf(x) === i
+        && x >= min && x <= max
+        && Math.abs(x - target) <= Math.abs(value - target)
+    );
+};
+
+/**
+ * Create generator for floats in a given range with given precision.
+ * 
+ * ```ts
+ * // floatWithPrecision : Int -> Int -> Int [-> Source Float] -> Generator Float
+ * // Example
+ * const generator = floatWithPrecision(0, 10, 2, pcg32(123));
+ * console.log(generator.next()); // -> e.g. 3.24
+ * console.log(generator.next()); // -> e.g. 8.13
+ * console.log(generator.next()); // -> e.g. 1.49
+ * ```
+ */
+export const floatWithPrecision = (min: number, max: number, precision: number, source: Source<number> = Math.random): Generator<number> => {
+    const floats = float(min, max, source);
+    const round = toPrecision(precision);
+    return describable(
+        fillable(
+            shrinkable(
+                generate((s, size) => round(run(floats, s, size))),
+                value => shrink(floats, value)
+                    .map(round)
+                    .filter((x, i, xs) => x !== value && xs.indexOf(x) === i)
+            ),
+            buffer => {
+                fill(floats, buffer);
+                for (let i = 0; i < buffer.length; i += 1) {
+                    buffer[i] = round(buffer[i]);
+                }
+            }
+        ),
+        () => ({ kind: "floatWithPrecision", min, max, precision })
+    );
+};
+
+/**
+ * Returns float with precision digits after the decimal point.
+ * 
+ * @internal
+ */
+const toPrecision = (precision: number) => (x: number): number => {
+    const power = 10 ** precision;
+    return Math.floor(x * power) / power;
+};
+
+/**
+ * Thrown when a generator is created with bounds that don't describe a range it can generate values from.
+ */
+export class InvalidRangeError extends Error {
+    constructor(message: string, readonly min: number | bigint, readonly max: number | bigint) {
+        super(message);
+        this.name = "InvalidRangeError";
+    }
+}
+
+/**
+ * Create generator for ints in given range.
+ * Every int in the range is exactly as likely as every other.
+ * 
+ * ```ts
+ * // int : Int -> Int [-> Source Float] -> Generator Int
+ * // Example
+ * const generator = int(0, 10, pcg32(123));
+ * console.log(generator.next()); // -> e.g. 3
+ * console.log(generator.next()); // -> e.g. 8
+ * console.log(generator.next()); // -> e.g. 1
+ * ```
+ * 
+ * Like in elm/random the bounds may be given in any order: `int(10, 0)` is the same as `int(0, 10)`.
+ * Bounds that are not ints are rounded towards each other: `int(0.5, 3.5)` is the same as `int(1, 3)`.
+ * Throws an `InvalidRangeError` if there is no int between the bounds,
+ * or if a bound isn't a safe integer (use `bigInt` for larger ranges).
+ */
+export const int = (min: number, max: number, source: Source<number> = Math.random): Generator<number> => {
+    const [lo, hi] = intRange(min, max);
+    const generator = shrinkable(
+        hi - lo < 4294967296
+            ? fromSource(s => lo + wordBelow(hi - lo + 1, s), source)
+            : fromSource(s => Number(BigInt(lo) + bigBelow(BigInt(hi) - BigInt(lo) + BigInt(1), s)), source),
+        x => shrinkTowards(closestToZero(lo, hi), x)
+    );
+    return describable(
+        hi - lo < 4294967296
+            ? fillable(generator, buffer => fillInts(lo, hi - lo + 1, source, buffer))
+            : generator,
+        () => ({ kind: "int", min: lo, max: hi })
+    );
+};
+
+/**
+ * Fills a buffer with ints in [lo, lo + range), drawing the same words as `wordBelow` would.
+ * With bulk `words`, it draws as many words as values are still missing, so it never draws more than `wordBelow` would.
+ * 
+ * @internal
+ */
+const fillInts = (lo: number, range: number, source: Source<number>, buffer: Float64Array | Int32Array): void => {
+    const limit = 4294967296 - 4294967296 % range;
+    const words = (source as Partial<WordSource>).words;
+    const word = (source as Partial<WordSource>).word;
+    if (words) {
+        const chunk = new Uint32Array(Math.min(buffer.length, chunkSize));
+        let rejected = 0;
+        let i = 0;
+        while (i < buffer.length) {
+            const part = buffer.length - i < chunk.length ? chunk.subarray(0, buffer.length - i) : chunk;
+            words(part);
+            for (let j = 0; j < part.length; j += 1) {
+                if (part[j] < limit) {
+                    buffer[i] = lo + remainder(part[j], range);
+                    i += 1;
+                    rejected = 0;
+                }
+                else {
+                    rejected += 1;
+                    if (rejected === 64) {
+                        throw new Error("int: the source keeps producing values that have to be rejected. Is it constant?");
+                    }
+                }
+            }
+        }
+    }
+    else {
+        for (let i = 0; i < buffer.length; i += 1) {
+            const w = word
+                ? word()
+                : Math.floor(source() * 4294967296) >>> 0;
+            buffer[i] = w < limit
+                ? lo + w % range
+                : lo + wordBelow(range, source);
+        }
+    }
+};
+
+/**
+ * `word % range` for words of 32 bits, without the slow float modulo V8 falls back to for words above 2^31.
+ * The quotient is below 2^32, so `>>> 0` floors it. The float quotient may round up to the next int,
+ * then the remainder comes out negative by one range.
+ * 
+ * @internal
+ */
+const remainder = (word: number, range: number): number => {
+    const r = word - ((word / range) >>> 0) * range;
+    return r < 0 ? r + range : r;
+};
+
+/**
+ * Create generator for bigints in given range.
+ * Every bigint in the range is exactly as likely as every other.
+ * 
+ * ```ts
+ * // bigInt : BigInt -> BigInt [-> Source Float] -> Generator BigInt
+ * // Example
+ * const ids = bigInt(BigInt(0), (BigInt(1) << BigInt(128)) - BigInt(1), cryptoSource());
+ * console.log(ids.next()); // -> e.g. 231584178474632390847141970017375815706n
+ * ```
+ * 
+ * The bounds may be given in any order.
+ */
+export const bigInt = (min: bigint, max: bigint, source: Source<number> = Math.random): Generator<bigint> => {
+    const [lo, hi] = min <= max ? [min, max] : [max, min];
+    return fromSource(s => lo + bigBelow(hi - lo + BigInt(1), s), source);
+};
+
+/**
+ * Validates and normalizes the bounds of `int`.
+ * 
+ * @internal
+ */
+const intRange = (min: number, max: number): [number, number] => {
+    if (!Number.isFinite(min) || !Number.isFinite(max)) {
+        throw new InvalidRangeError(`int: bounds must be finite numbers, got ${min} and ${max}.`, min, max);
+    }
+
+    const lo = Math.ceil(Math.min(min, max));
+    const hi = Math.floor(Math.max(min, max));
+
+    if (lo > hi) {
+        throw new InvalidRangeError(`int: there is no int between ${min} and ${max}.`, min, max);
+    }
+    else if (!Number.isSafeInteger(lo) || !Number.isSafeInteger(hi)) {
+        throw new InvalidRangeError(`int: bounds must be safe integers, got ${min} and ${max}. Use bigInt() for larger ranges.`, min, max);
+    }
+    else {
+        return [lo, hi];
+    }
+};
+
+/**
+ * Draws an int in [0, range) from 32-bit words with rejection sampling,
+ * so every int is exactly as likely as every other. `range` must be in [1, 2^32].
+ * 
+ * @internal
+ */
+const wordBelow = (range: number, source: Source<number>): number => {
+    // the largest multiple of range that fits into 32 bits; words above are rejected
+    const limit = 4294967296 - 4294967296 % range;
+    for (let tries = 0; tries < 64; tries += 1) {
+        const word = nextWord(source);
+        if (word < limit) {
+            return word % range;
+        }
+    }
+    throw new Error("int: the source keeps producing values that have to be rejected. Is it constant?");
+};
+
+/**
+ * Draws a bigint in [0, range) from as many 32-bit words as needed.
+ * Draws are cut down to the bit length of the range and rejected if they are still too large,
+ * so less than half of the draws are rejected.
+ * 
+ * @internal
+ */
+const bigBelow = (range: bigint, source: Source<number>): bigint => {
+    const bits = (range - BigInt(1)).toString(2).length;
+    const words = Math.ceil(bits / 32);
+    const mask = (BigInt(1) << BigInt(bits)) - BigInt(1);
+    for (let tries = 0; tries < 64; tries += 1) {
+        let x = BigInt(0);
+        for (let i = 0; i < words; i += 1) {
+            x = (x << BigInt(32)) | BigInt(nextWord(source));
+        }
+        x &= mask;
+        if (x < range) {
+            return x;
+        }
+    }
+    throw new Error("int: the source keeps producing values that have to be rejected. Is it constant?");
+};
+
+
+/**
+ * Create generator for boolean values.
+ * 
+ * ```ts
+ * // boolean : [Source Float] -> Generator bool
+ * // Example:
+ * const generator = boolean(pcg32(123));
+ * console.log(generator.next()); // -> e.g. false
+ * console.log(generator.next()); // -> e.g. true
+ * console.log(generator.next()); // -> e.g. false
+ * 
+ */
+export const boolean = (source: Source<number> = Math.random): Generator<boolean> =>
+    shrinkable(
+        fromSource(s => s() > .5, source),
+        b => b ? [false] : []
+    );
+
+/**
+ * Create generator for values with equal probability.
+ * 
+ * ```ts
+ * // uniform : a -> Array a [-> Source Float] -> Generator a
+ * // Example
+ * type Suit = "Club" | "Diamond" | "Spade" | "Heart";
+ * 
+ * const suits:Generator<Suit> = uniform("Club", ["Diamond", "Spade", "Heart"], pcg32(123));
+ * console.log(suits()); // "Club"
+ * console.log(suits()); // "Diamond"
+ * console.log(suits()); // "Heart"
+ * ```
+ * 
+ * **NOTE:** Why not have uniform `<A>uniform(list: Array<A>): Generator<A>` as the API? It looks a little prettier in code, but it leads to an awkward question. What do you do with `uniform([])`? How can it produce a value? The current API guarantees that we always have at least one value, so we never run into that question!
+ */
+export const uniform = <A>(first: A, rest: Array<A>, source: Source<number> = Math.random): Generator<A> =>
+    describable(
+        rest.length === 0
+            ? constant(first)
+            : shrinkable(
+                int(0, rest.length, source)
+                    .map(i => [first, ...rest][i]),
+                // earlier values are simpler
+                x => [first, ...rest].slice(0, [first, ...rest].indexOf(x))
+            ),
+        () => ({ kind: "uniform", values: [first, ...rest] })
+    );
+
+
+/**
+ * Create generator for values with a *weighted* probabilty.
+ * 
+ * ```ts
+ * // weighted : [a, Float] -> Array [a, Float] [-> Source Float] -> Generator a
+ * // Example
+ * // A loaded dice that lands on 5 and 6 more often:
+ * const loadedDice =
+ *    weighted( ["1", 10], [["2", 10], ["3", 10], ["4", 10], ["5", 20], ["6", 40]);
+ * console.log(loadedDice.next()); // -> 5
+ * console.log(loadedDice.next()); // -> 2
+ * console.log(loadedDice.next()); // -> 6
+ * console.log(loadedDice.next()); // -> 6
+ * ```
+ * 
+ * **NOTE**: The weights in the example add up to 100, but that's not necessary. The weights are added up into a total, and from there, the probability of each case is `weight/total`.
+ * 
+ * The probabilities are precomputed into an alias table when the generator is created,
+ * so every value takes the same time to generate - no matter how many entries there are.
+ * Throws an `InvalidWeightsError` if a weight is negative, NaN or infinite, or if all weights are 0.
+ */
+export const weighted = <A>(first: [A, number], rest: Array<[A, number]>, source: Source<number> = Math.random): Generator<A> => {
+    const entries = [first, ...rest];
+    const table = aliasTable(entries.map(([_, weight]) => weight));
+
+    return describable(
+        entries.length === 1
+            ? constant(first[0])
+            : fromSource(s => {
+                const i = wordBelow(entries.length, s);
+                return s() < table.probability[i]
+                    ? entries[i][0]
+                    : entries[table.alias[i]][0];
+            }, source),
+        () => ({ kind: "weighted", values: entries })
+    );
+};
+
+/**
+ * Thrown when `weighted` gets weights it can't turn into probabilities.
+ */
+export class InvalidWeightsError extends Error {
+    constructor(message: string, readonly weights: number[]) {
+        super(message);
+        this.name = "InvalidWeightsError";
+    }
+}
+
+/**
+ * Alias table for Vose's alias method: to draw an entry, pick a column i uniformly,
+ * then take entry i with `probability[i]` and entry `alias[i]` otherwise.
+ * 
+ * @internal
+ */
+type AliasTable = {
+    probability: number[],
+    alias: number[]
+};
+
+/**
+ * Validates weights and builds the alias table for them in O(n).
+ * 
+ * @internal
+ */
+const aliasTable = (weights: number[]): AliasTable => {
+    weights.forEach((weight, i) => {
+        if (!Number.isFinite(weight) || weight < 0) {
+            throw new InvalidWeightsError(`weighted: the weight of entry ${i} must be a finite number >= 0, got ${weight}.`, weights);
+        }
+    });
+
+    const n = weights.length;
+    const total = weights.reduce((acc, weight) => acc + weight, 0);
+    if (total === 0) {
+        throw new InvalidWeightsError("weighted: at least one weight must be greater than 0.", weights);
+    }
+    else if (!Number.isFinite(total)) {
+        throw new InvalidWeightsError("weighted: the weights add up to more than the largest number.", weights);
+    }
+
+    const scaled = weights.map(weight => weight * n / total);
+    const probability = Array(n).fill(1);
+    const alias = weights.map((_, i) => i);
+    const small: number[] = [];
+    const large: number[] = [];
+
+    for (let i = 0; i < n; i += 1) {
+        (scaled[i] < 1 ? small : large).push(i);
+    }
+
+    while (small.length > 0 && large.length > 0) {
+        const l = small.pop() as number;
+        const g = large.pop() as number;
+        probability[l] = scaled[l];
+        alias[l] = g;
+        scaled[g] = scaled[g] + scaled[l] - 1;
+        (scaled[g] < 1 ? small : large).push(g);
+    }
+    // whatever is left over is (up to rounding errors) exactly 1 and keeps its default
+
+    return { probability, alias };
+};
+
+/**
+ * Create a generator that picks one of the given generators (each equally likely) and generates a value with it.
+ * Unlike `uniform`, which picks among values, this picks among generators.
+ * 
+ * ```ts
+ * // oneOf : Generator a -> Array (Generator a) [-> Source Float] -> Generator a
+ * // Example: numbers that are either small or huge, but never in between
+ * const extremes = oneOf(int(0, 9), [int(1000000, 9999999)]);
+ * ```
+ */
+export const oneOf = <A>(first: Generator<A>, rest: Array<Generator<A>>, source: Source<number> = Math.random): Generator<A> =>
+    uniform(first, rest, source)
+        .then(generator => generator);
+
+/**
+ * Create a generator that picks one of the given generators with a *weighted* probability and generates a value with it.
+ * Unlike `weighted`, which picks among values, this picks among generators.
+ * 
+ * ```ts
+ * // frequency : [Float, Generator a] -> Array [Float, Generator a] [-> Source Float] -> Generator a
+ * // Example: mostly small ints, sometimes negative ones, rarely huge ones
+ * const ints = frequency([80, int(0, 9)], [[15, int(-9, -1)], [5, int(1000, 9999)]]);
+ * ```
+ */
+export const frequency = <A>(first: [number, Generator<A>], rest: Array<[number, Generator<A>]>, source: Source<number> = Math.random): Generator<A> =>
+    weighted<Generator<A>>([first[1], first[0]], rest.map(([weight, generator]): [Generator<A>, number] => [generator, weight]), source)
+        .then(generator => generator);
+
+/**
+ * Create a generator from a function that creates it, the first time a value is generated.
+ * Use it for generators that refer to themselves, which would otherwise be used before they are defined.
+ * 
+ * ```ts
+ * // lazy : (() -> Generator a) -> Generator a
+ * // Example: a list that ends with a probability of 1/4 after every value
+ * type Chain = { value: number, rest: Chain | null };
+ * const chains: Generator<Chain> =
+ *    object({
+ *       value: int(0, 9),
+ *       rest: frequency([1, constant(null)], [[3, lazy(() => chains)]])
+ *    });
+ * ```
+ */
+export const lazy = <A>(create: () => Generator<A>): Generator<A> => {
+    let generator: Generator<A> | undefined = undefined;
+    return generate((source, size) => {
+        generator = generator || create();
+        return run(generator, source, size);
+    });
+};
+
+/**
+ * Options for `recursive`.
+ */
+export interface RecursiveOptions {
+    /**
+     * How often `step` may be nested at most. Defaults to 5.
+     */
+    maxDepth?: number,
+
+    /**
+     * Probability to use `step` at the top. The probability at each level below is multiplied by it again,
+     * so deeper levels get less and less likely. Defaults to 0.5.
+     * If there is a size (see `sized`), each level also gets the size of the level above multiplied by it,
+     * and there are no more levels once the size is 0.
+     */
+    sizeDecay?: number
+};
+
+/**
+ * Create a generator for recursive data like trees, that is guaranteed to terminate.
+ * `step` gets a generator for the values one level deeper and returns a generator for the compound values.
+ * At each level either `base` or `step` is used, with `step` getting less likely the deeper it gets,
+ * until at `maxDepth` only `base` is left.
+ * 
+ * ```ts
+ * // recursive : Generator a -> (Generator a -> Generator a) [-> RecursiveOptions] [-> Source Float] -> Generator a
+ * // Example: arithmetic expressions
+ * type Expr = number | { op: "+" | "*", left: Expr, right: Expr };
+ * const exprs: Generator<Expr> =
+ *    recursive<Expr>(
+ *       int(0, 9),
+ *       self => object({ op: uniform<"+" | "*">("+", ["*"]), left: self, right: self }),
+ *       { maxDepth: 4 }
+ *    );
+ * ```
+ */
+export const recursive = <A>(base: Generator<A>, step: (self: Generator<A>) => Generator<A>, options: RecursiveOptions = {}, source: Source<number> = Math.random): Generator<A> => {
+    const maxDepth = options.maxDepth ?? 5;
+    const sizeDecay = Math.min(1, Math.max(0, options.sizeDecay ?? 0.5));
+    const atDepth = (depth: number): Generator<A> => {
+        const p = sizeDecay ** (depth + 1);
+        if (depth >= maxDepth || p === 0) {
+            return base;
+        }
+        const deeper = lazy(() => atDepth(depth + 1));
+        const either = frequency([1 - p, base], [[p, step(generate((s, size) => run(deeper, s, size === undefined ? undefined : Math.floor(size * sizeDecay))))]], source);
+        return generate((s, size) =>
+            size !== undefined && size <= 0
+                ? run(base, s, size)
+                : run(either, s, size)
+        );
+    };
+    return atDepth(0);
+};
+
+/**
+ * Create a generator for values that pass a predicate. The same as `generator.filter(predicate, options)`.
+ * 
+ * ```ts
+ * // suchThat : Generator a -> (a -> Bool) [-> FilterOptions] -> Generator a
+ * // Example
+ * const nonEmpty = suchThat(listOf({ min: 0, max: 5 }, int(0, 9)), xs => xs.length > 0);
+ * ```
+ */
+export const suchThat = <A>(generator: Generator<A>, predicate: (a: A) => boolean, options: FilterOptions = {}): Generator<A> =>
+    generator.filter(predicate, options);
+
+/**
+ * The size `sized` generators get when no size is given.
+ */
+export const defaultSize = 30;
+
+/**
+ * Create a generator that depends on the size, a hint how large the values should get.
+ * The size comes from `step(generator, seed, size)`, `resize` or `check` (which starts small and grows),
+ * otherwise it is `defaultSize`.
+ * `listOf`, `string` and `recursive` respect the size.
+ * 
+ * ```ts
+ * // sized : (Int -> Generator a) -> Generator a
+ * // Example: matrices that get larger with the size
+ * const matrices = sized(n => list(n, list(n, float(0, 1))));
+ * const [small] = step(matrices, seed, 2);
+ * const [large] = step(matrices, seed, 100);
+ * ```
+ */
+export const sized = <A>(create: (size: number) => Generator<A>): Generator<A> =>
+    generate((source, size) => run(create(size ?? defaultSize), source, size));
+
+/**
+ * Create a generator that runs the given generator with a fixed size. See `sized`.
+ * 
+ * ```ts
+ * // resize : Int -> Generator a -> Generator a
+ * // Example: lists of up to 1000 values, no matter which size the rest gets
+ * const loadTestData = resize(1000, listOf({ min: 0 }, int(0, 9)));
+ * ```
+ */
+export const resize = <A>(size: number, generator: Generator<A>): Generator<A> =>
+    generate(source => run(generator, source, size));
+
+/**
+ * Create a generator for the same value every time.
+ * 
+ * ```ts
+ * // constant : a -> Generator a
+ * // Example
+ * const alwaysHelloWorld = constant("Hello World!");
+ * console.log(alwaysHelloWorld.next()); // -> "Hello World!";
+ * console.log(alwaysHelloWorld.next()); // -> "Hello World!";
+ * console.log(alwaysHelloWorld.next()); // -> "Hello World!";
+ * ```
+ * 
+ * **NOTE:** You might be asking yourself "But why?". It is useful. See `uniform` and `weighted` for examples.
+ */
+export const constant = <A>(value: A): Generator<A> =>
+    describable(generate(() => value), () => ({ kind: "constant", value }));
+
+/**
+ * Create a generator for a pair of random values.
+ * A common use of this might be to generate a point in a certain 2D space:
+ * 
+ * ```ts
+ * const points: Generator<[number, number]> = pair(int(0,100), int(0,100));
+ * 
+ * console.log(points()); // [ 73, 21 ]
+ * console.log(points()); // [ 65, 68 ]
+ * console.log(points()); // [ 7, 28 ]
+ * ```
+ * @param leftGenerator Generator for the left/first value.
+ * @param rightGenerator Generator for the right/second value.
+ */
+export const pair = <A, B>(leftGenerator: Generator<A>, rightGenerator: Generator<B>): Generator<[A, B]> =>
+    describable(
+        shrinkable(
+            generate((source, size) => [run(leftGenerator, source, size), run(rightGenerator, source, size)]),
+            ([left, right]) => [
+                ...shrink(leftGenerator, left).map((l): [A, B] => [l, right]),
+                ...shrink(rightGenerator, right).map((r): [A, B] => [left, r])
+            ]
+        ),
+        registry => ({ kind: "pair", left: describe(leftGenerator, registry), right: describe(rightGenerator, registry) })
+    );
+
+
+/**
+ * Create a generator for lists/arrays of random values.
+ * 
+ * ```ts
+ * const lists: Generator<number[]> = list(5, int(0,100));
+ * 
+ * console.log(lists()); // [ 23, 25, 1, 76, 34 ]
+ * console.log(lists()); // [ 3, 38, 33, 12, 68 ]
+ * console.log(lists()); // [ 40, 60, 90, 37, 86 ]
+ * ```
+ * 
+ * If you want to generate a list with a random length, use `listOf` (or `then`):
+ * 
+ * ```ts
+ * const lists = listOf({ min: 1, max: 10 }, int(0,100));
+ * 
+ * console.log(lists()); // [ 39, 35, 31, 14, 34, 99 ]
+ * console.log(lists()); // [ 82, 52, 96, 20 ]
+ * console.log(lists()); // [ 86, 86, 94, 44, 55, 23, 7, 23, 86 ]
  * ```
  * 
  * @param len Array length.
  * @param generator Generator for the values that fill the list.
  */
 export const list = <A>(len: number, generator: Generator<A>): Generator<A[]> =>
-    generate(() => {
-        const result = [];
-        for (let i = 0; i < len; i += 1) {
-            result[i] = generator.next();
+    describable(
+        shrinkable(
+            generate((source, size) => {
+                const result = [];
+                for (let i = 0; i < len; i += 1) {
+                    result[i] = run(generator, source, size);
+                }
+                return result
+            }),
+            shrinkEach(generator)
+        ),
+        registry => ({ kind: "list", length: len, generator: describe(generator, registry) })
+    );
+
+/**
+ * Shrinks a list by shrinking one of its values at a time.
+ * 
+ * @internal
+ */
+const shrinkEach = <A>(generator: Generator<A>) => (values: A[]): A[][] =>
+    values.reduce(
+        (acc: A[][], value, i) =>
+            acc.concat(
+                shrink(generator, value)
+                    .map(x => [...values.slice(0, i), x, ...values.slice(i + 1)])
+            ),
+        []
+    );
+
+/**
+ * Lower and upper bound (both inclusive), e.g. of the length of a list.
+ * Without an upper bound, the size decides how large values get (see `sized`).
+ */
+export interface Bounds {
+    min: number,
+    max?: number
+};
+
+/**
+ * Generates ints within bounds, respecting the size:
+ * with a size the upper bound is lowered to it (but not below the lower bound),
+ * a missing upper bound is the size (or the default size).
+ * 
+ * @internal
+ */
+const sizedBounds = (bounds: Bounds, source: Source<number>): Generator<number> => {
+    const { min, max } = bounds;
+    const unsized = max === undefined ? undefined : int(min, max, source);
+    return generate((s, size) => {
+        const limit = size ?? defaultSize;
+        return size === undefined && unsized !== undefined
+            ? run(unsized, s)
+            : run(int(min, Math.max(min, max === undefined ? limit : Math.min(max, limit)), source), s);
+    });
+};
+
+/**
+ * Thrown when a generator has to reject too many values to produce one it can use.
+ * Carries the last value that was rejected.
+ */
+export class RetriesExhaustedError<A> extends Error {
+    constructor(message: string, readonly lastRejected: A) {
+        super(message);
+        this.name = "RetriesExhaustedError";
+    }
+}
+
+/**
+ * Create a generator for lists with a random length within bounds.
+ * 
+ * ```ts
+ * // listOf : Bounds -> Generator a [-> Source Float] -> Generator (List a)
+ * // Example
+ * const lists = listOf({ min: 1, max: 5 }, int(0, 99));
+ * console.log(lists.next()); // [ 21, 76 ]
+ * console.log(lists.next()); // [ 9, 43, 31, 93 ]
+ * ```
+ * 
+ * Without `max` the length is limited by the size (see `sized`):
+ * 
+ * ```ts
+ * const growing = listOf({ min: 0 }, int(0, 99));
+ * console.log(step(growing, seed, 3)[0]); // [ 12, 5 ]
+ * ```
+ * 
+ * Throws an `InvalidRangeError` if `min` is negative or greater than `max`.
+ * 
+ * @param length Bounds of the list length.
+ * @param generator Generator for the values that fill the list.
+ * @param source Source for the length.
+ */
+export const listOf = <A>(length: Bounds, generator: Generator<A>, source: Source<number> = Math.random): Generator<A[]> => {
+    if (!(length.min >= 0) || (length.max !== undefined && !(length.max >= length.min))) {
+        throw new InvalidRangeError(`listOf: lengths must be within 0 <= min <= max, got ${length.min} and ${length.max}.`, length.min, length.max ?? Infinity);
+    }
+    const lengths = sizedBounds(length, source);
+    const [min] = intRange(length.min, length.max ?? length.min);
+    return shrinkable(
+        generate((s, size) => run(list(run(lengths, s, size), generator), s, size)),
+        values => [
+            // shortest list first, then one value less, then simpler values
+            ...(values.length > min ? [values.slice(0, min)] : []),
+            ...(values.length > min + 1 ? values.map((_, i) => [...values.slice(0, i), ...values.slice(i + 1)]) : []),
+            ...shrinkEach(generator)(values)
+        ]
+    );
+};
+
+/**
+ * Create a generator for lists with at least one value.
+ * 
+ * ```ts
+ * // nonEmptyList : Int -> Generator a [-> Source Float] -> Generator (a, List a)
+ * // Example
+ * const hands = nonEmptyList(5, uniform("Club", ["Diamond", "Spade", "Heart"]));
+ * const [first, ...rest] = hands.next();
+ * ```
+ * 
+ * @param maxLength Maximum length of the list.
+ * @param generator Generator for the values that fill the list.
+ * @param source Source for the length.
+ */
+export const nonEmptyList = <A>(maxLength: number, generator: Generator<A>, source: Source<number> = Math.random): Generator<[A, ...A[]]> =>
+    listOf({ min: 1, max: maxLength }, generator, source) as Generator<[A, ...A[]]>;
+
+/**
+ * Options for generators of distinct values.
+ */
+export interface UniqueOptions<A> {
+    /**
+     * Values with the same key count as the same value. Defaults to the value itself.
+     */
+    key?: (value: A) => unknown,
+
+    /**
+     * How many duplicates may be rejected before giving up. Defaults to 100 + 10 * length.
+     */
+    maxTries?: number
+};
+
+/**
+ * Create a generator for lists of distinct values.
+ * Duplicates are rejected and generated again.
+ * Throws a `RetriesExhaustedError` if there are too many duplicates, e.g. because the generator doesn't have enough different values.
+ * 
+ * ```ts
+ * // uniqueList : Int -> Generator a [-> UniqueOptions a] -> Generator (List a)
+ * // Example: lottery numbers
+ * const lottery = uniqueList(6, int(1, 49));
+ * // distinct by key
+ * const users = uniqueList(3, object({ id: int(1, 9), name: uniform("Ada", ["Grace"]) }), { key: u => u.id });
+ * ```
+ * 
+ * @param len Array length.
+ * @param generator Generator for the values that fill the list.
+ * @param options Key to compare by and retry budget.
+ */
+export const uniqueList = <A>(len: number, generator: Generator<A>, options: UniqueOptions<A> = {}): Generator<A[]> => {
+    const key = options.key || ((value: A) => value);
+    const maxTries = options.maxTries ?? 100 + 10 * len;
+    const isUnique = (values: A[]) =>
+        new Set(values.map(key)).size === values.length;
+
+    return shrinkable(
+        generate((source, size) => {
+            const result: A[] = [];
+            const keys = new Set<unknown>();
+            let rejected = 0;
+            while (result.length < len) {
+                const value = run(generator, source, size);
+                if (!keys.has(key(value))) {
+                    keys.add(key(value));
+                    result.push(value);
+                }
+                else if (rejected < maxTries) {
+                    rejected += 1;
+                }
+                else {
+                    throw new RetriesExhaustedError(`uniqueList: rejected ${rejected} duplicates, but only found ${result.length} of ${len} distinct values.`, value);
+                }
+            }
+            return result;
+        }),
+        values => shrinkEach(generator)(values).filter(isUnique)
+    );
+};
+
+/**
+ * Create a generator for sets with a given number of values.
+ * See `uniqueList`.
+ * 
+ * ```ts
+ * // set : Int -> Generator a [-> UniqueOptions a] -> Generator (Set a)
+ * // Example
+ * const tags = set(3, uniform("red", ["green", "blue", "yellow"]));
+ * console.log(tags.next()); // Set { "blue", "red", "yellow" }
+ * ```
+ */
+export const set = <A>(size: number, generator: Generator<A>, options: Pick<UniqueOptions<A>, "maxTries"> = {}): Generator<Set<A>> =>
+    uniqueList(size, generator, options)
+        .map(values => new Set(values));
+
+/**
+ * Create a generator for maps with a given number of random keys.
+ * See `uniqueList`.
+ * 
+ * ```ts
+ * // mapOf : Int -> Generator k -> Generator v [-> UniqueOptions k] -> Generator (Map k v)
+ * // Example
+ * const scores = mapOf(3, int(1000, 9999), int(0, 100));
+ * console.log(scores.next()); // Map { 4711 => 12, 1234 => 97, 8080 => 55 }
+ * ```
+ */
+export const mapOf = <K, V>(size: number, keyGenerator: Generator<K>, valueGenerator: Generator<V>, options: Pick<UniqueOptions<K>, "maxTries"> = {}): Generator<Map<K, V>> =>
+    uniqueList(size, pair(keyGenerator, valueGenerator), { key: ([k]) => k, maxTries: options.maxTries })
+        .map(entries => new Map(entries));
+
+/**
+ * Create a generator for objects with a given number of random keys.
+ * See `uniqueList`.
+ * 
+ * ```ts
+ * // record : Int -> Generator String -> Generator v [-> UniqueOptions String] -> Generator { String: v }
+ * // Example
+ * const env = record(2, uniform("HOST", ["PORT", "USER"]), boolean());
+ * console.log(env.next()); // { PORT: true, HOST: false }
+ * ```
+ */
+export const record = <V>(size: number, keyGenerator: Generator<string>, valueGenerator: Generator<V>, options: Pick<UniqueOptions<string>, "maxTries"> = {}): Generator<{ [key: string]: V }> =>
+    uniqueList(size, pair(keyGenerator, valueGenerator), { key: ([k]) => k, maxTries: options.maxTries })
+        .map(entries => entries.reduce(
+            (acc: { [key: string]: V }, [k, v]) => {
+                acc[k] = v;
+                return acc;
+            },
+            {}
+        ));
+
+/**
+ * Create a generator for random permutations of an array (Fisher-Yates shuffle).
+ * Every order is exactly as likely as every other.
+ * 
+ * ```ts
+ * // shuffle : List a [-> Source Float] -> Generator (List a)
+ * // Example
+ * const deck = shuffle(["A", "K", "Q", "J", "10"]);
+ * console.log(deck.next()); // [ "Q", "10", "A", "J", "K" ]
+ * ```
+ */
+export const shuffle = <A>(values: A[], source: Source<number> = Math.random): Generator<A[]> =>
+    sample(values.length, values, source);
+
+/**
+ * Create a generator for k distinct values of an array (partial Fisher-Yates shuffle).
+ * "Distinct" means distinct positions: equal values in the array may be picked more than once.
+ * Throws an `InvalidRangeError` if k is not an int within [0, array length].
+ * 
+ * ```ts
+ * // sample : Int -> List a [-> Source Float] -> Generator (List a)
+ * // Example
+ * const winners = sample(3, ["Ada", "Grace", "Linus", "Margaret", "Ken"]);
+ * console.log(winners.next()); // [ "Ken", "Ada", "Margaret" ]
+ * ```
+ */
+export const sample = <A>(k: number, values: A[], source: Source<number> = Math.random): Generator<A[]> => {
+    if (!Number.isInteger(k) || k < 0 || k > values.length) {
+        throw new InvalidRangeError(`sample: can't pick ${k} of ${values.length} values.`, 0, values.length);
+    }
+
+    return fromSource(s => {
+        const result = [...values];
+        // the last position of a full shuffle has nothing left to swap with
+        for (let i = 0; i < Math.min(k, result.length - 1); i += 1) {
+            const j = i + wordBelow(result.length - i, s);
+            [result[i], result[j]] = [result[j], result[i]];
         }
-        return result
-    });
\ No newline at end of file
+        return result.slice(0, k);
+    }, source);
+};
+
+/**
+ * Create a generator for tuples of any length, one generator per position.
+ * 
+ * ```ts
+ * // tuple : Generator a -> Generator b -> ... -> Generator (a, b, ...)
+ * // Example
+ * const rgb: Generator<[number, number, number]> = tuple(int(0, 255), int(0, 255), int(0, 255));
+ * const labelled: Generator<[string, number, boolean]> = tuple(uniform("a", ["b"]), float(0, 1), boolean());
+ * 
+ * console.log(rgb.next()); // [ 12, 250, 97 ]
+ * ```
+ * 
+ * @param generators Generators for the values at each position.
+ */
+export const tuple = <T extends unknown[]>(...generators: { [K in keyof T]: Generator<T[K]> }): Generator<T> =>
+    shrinkable(
+        generate((source, size) => (generators as Generator<unknown>[]).map(g => run(g, source, size)) as T),
+        values => (generators as Generator<unknown>[]).reduce(
+            (acc: T[], generator, i) =>
+                acc.concat(
+                    shrink(generator, values[i])
+                        .map(x => [...values.slice(0, i), x, ...values.slice(i + 1)] as T)
+                ),
+            []
+        )
+    );
+
+/**
+ * Create a generator for objects, one generator per property.
+ * The values are generated in the order of the keys.
+ * 
+ * ```ts
+ * // object : { k: Generator a, ... } -> Generator { k: a, ... }
+ * // Example
+ * const people: Generator<{ name: string, age: number }> =
+ *    object({
+ *       name: uniform("Ada", ["Grace", "Linus"]),
+ *       age: int(18, 99)
+ *    });
+ * 
+ * console.log(people.next()); // { name: "Grace", age: 37 }
+ * ```
+ * 
+ * @param generators Object with a generator for each property.
+ */
+export const object = <T extends object>(generators: { [K in keyof T]: Generator<T[K]> }): Generator<T> => {
+    const keys = Object.keys(generators) as Array<keyof T>;
+    return shrinkable(
+        generate((source, size) => keys.reduce(
+            (acc, key) => {
+                acc[key] = run(generators[key], source, size);
+                return acc;
+            },
+            {} as T
+        )),
+        value => keys.reduce(
+            (acc: T[], key) =>
+                acc.concat(
+                    shrink(generators[key], value[key])
+                        .map(x => ({ ...value, [key]: x }))
+                ),
+            []
+        )
+    );
+};
+
+/**
+ * Combine two generators with a function.
+ * 
+ * ```ts
+ * // map2 : (a -> b -> c) -> Generator a -> Generator b -> Generator c
+ * // Example
+ * const sums = map2((a, b) => a + b, int(1, 6), int(1, 6));
+ * ```
+ */
+export const map2 = <A, B, C>(f: (a: A, b: B) => C, generatorA: Generator<A>, generatorB: Generator<B>): Generator<C> =>
+    tuple(generatorA, generatorB)
+        .map(([a, b]) => f(a, b));
+
+/**
+ * Combine three generators with a function. See `map2`.
+ * 
+ * ```ts
+ * // map3 : (a -> b -> c -> d) -> Generator a -> Generator b -> Generator c -> Generator d
+ * // Example
+ * const color = map3((r, g, b) => `rgb(${r}, ${g}, ${b})`, int(0, 255), int(0, 255), int(0, 255));
+ * ```
+ */
+export const map3 = <A, B, C, D>(f: (a: A, b: B, c: C) => D, generatorA: Generator<A>, generatorB: Generator<B>, generatorC: Generator<C>): Generator<D> =>
+    tuple(generatorA, generatorB, generatorC)
+        .map(([a, b, c]) => f(a, b, c));
+
+/**
+ * Combine four generators with a function. See `map2`.
+ */
+export const map4 = <A, B, C, D, E>(f: (a: A, b: B, c: C, d: D) => E, generatorA: Generator<A>, generatorB: Generator<B>, generatorC: Generator<C>, generatorD: Generator<D>): Generator<E> =>
+    tuple(generatorA, generatorB, generatorC, generatorD)
+        .map(([a, b, c, d]) => f(a, b, c, d));
+
+/**
+ * Combine five generators with a function. See `map2`.
+ */
+export const map5 = <A, B, C, D, E, F>(f: (a: A, b: B, c: C, d: D, e: E) => F, generatorA: Generator<A>, generatorB: Generator<B>, generatorC: Generator<C>, generatorD: Generator<D>, generatorE: Generator<E>): Generator<F> =>
+    tuple(generatorA, generatorB, generatorC, generatorD, generatorE)
+        .map(([a, b, c, d, e]) => f(a, b, c, d, e));
+
+/**
+ * Apply generated values to a generated (curried) function, one argument at a time.
+ * Use it to combine more generators than `map5` can.
+ * 
+ * ```ts
+ * // andMap : Generator a -> Generator (a -> b) -> Generator b
+ * // Example
+ * const user = (name: string) => (age: number) => (admin: boolean) => ({ name, age, admin });
+ * const users =
+ *    andMap(boolean(),
+ *       andMap(int(18, 99),
+ *          andMap(uniform("Ada", ["Grace"]), constant(user))));
+ * ```
+ */
+export const andMap = <A, B>(generator: Generator<A>, functionGenerator: Generator<(a: A) => B>): Generator<B> =>
+    tuple(generator, functionGenerator)
+        .map(([a, f]) => f(a));
+
+/**
+ * Generate n numbers into a `Float64Array`, e.g. to hand them to numeric code or to send them to a worker.
+ * 
+ * ```ts
+ * // sampleN : Int -> Generator Float -> Float64Array
+ * // Example
+ * const samples = sampleN(100000, float(0, 1));
+ * ```
+ */
+export const sampleN = (n: number, generator: Generator<number>): Float64Array =>
+    fill(generator, new Float64Array(n));
+
+/**
+ * Fill a `Float64Array` with values of a generator, e.g. for Monte Carlo simulations with millions of samples.
+ * `float`, `floatWithPrecision` and `int` fill the buffer straight from their source. With `pcg32`, `splitmix32` or `xoshiro128ss`
+ * they draw the words in bulk from the state of the source and give the same values as one by one,
+ * more than 10 times faster than `list` (`tests/bulk.bench.ts` checks that for `pcg32`).
+ * With other sources, `Math.random` included, every value still takes a call of the source,
+ * so the speedup is bounded by the cost of the source (about 5 times for `Math.random`).
+ * Other generators (e.g. created with `map`) work too, just without the speedup.
+ * 
+ * ```ts
+ * // fillFloat64 : Generator Float -> Float64Array -> Float64Array
+ * // Example: estimate pi
+ * const xs = fillFloat64(float(0, 1), new Float64Array(1000000));
+ * const ys = fillFloat64(float(0, 1), new Float64Array(1000000));
+ * const inside = xs.filter((x, i) => x * x + ys[i] * ys[i] < 1).length;
+ * console.log(4 * inside / xs.length); // -> e.g. 3.141592
+ * ```
+ * 
+ * @param generator Generator for the values.
+ * @param buffer Buffer to fill. It is filled completely and returned.
+ */
+export const fillFloat64 = (generator: Generator<number>, buffer: Float64Array): Float64Array =>
+    fill(generator, buffer);
+
+/**
+ * Fill an `Int32Array` with values of a generator. Like `fillFloat64`, `int` fills the buffer straight from its source,
+ * in bulk for `pcg32`, `splitmix32` and `xoshiro128ss`.
+ * 
+ * ```ts
+ * // fillInt32 : Generator Int -> Int32Array -> Int32Array
+ * // Example: a million dice rolls
+ * const rolls = fillInt32(int(1, 6), new Int32Array(1000000));
+ * ```
+ * 
+ * **NOTE:** Values that don't fit into 32 bits wrap around like every value written to an `Int32Array`.
+ * 
+ * @param generator Generator for the values.
+ * @param buffer Buffer to fill. It is filled completely and returned.
+ */
+export const fillInt32 = (generator: Generator<number>, buffer: Int32Array): Int32Array =>
+    fill(generator, buffer);
+
+/**
+ * Create a generator that runs the given generator on a stream of its own.
+ * Only the seed of that stream is drawn from the source (always three words),
+ * so however many values the given generator draws, it doesn't shift the values around it.
+ * 
+ * ```ts
+ * // independent : Generator a [-> Source Float] -> Generator a
+ * // Example
+ * const name = independent(list(8, int(97, 122)));
+ * const age = independent(int(18, 99));
+ * // changing `name` to list(12, ...) does not change the ages generated with a seed.
+ * const people = pair(name, age);
+ * ```
+ * 
+ * @param generator Generator to run on its own stream.
+ * @param source Source the seed of the stream is drawn from.
+ */
+export const independent = <A>(generator: Generator<A>, source: Source<number> = Math.random): Generator<A> =>
+    generate((override, size) => step(generator, drawSeed(override || source), size)[0]);
+
+/**
+ * Create a generator for a pair of random values, each generated on a stream of its own.
+ * See `independent`.
+ * 
+ * ```ts
+ * const points: Generator<[number, number]> = independentPair(int(0,100), int(0,100));
+ * const [point, seed1] = step(points, initialSeed(42));
+ * ```
+ * @param leftGenerator Generator for the left/first value.
+ * @param rightGenerator Generator for the right/second value.
+ * @param source Source the seeds of the streams are drawn from.
+ */
+export const independentPair = <A, B>(leftGenerator: Generator<A>, rightGenerator: Generator<B>, source: Source<number> = Math.random): Generator<[A, B]> =>
+    pair(independent(leftGenerator, source), independent(rightGenerator, source));
+
+/**
+ * Create a generator for lists/arrays of random values, each generated on a stream of its own.
+ * See `independent`.
+ * 
+ * ```ts
+ * const lists: Generator<number[]> = independentList(5, int(0,100));
+ * const [numbers, seed1] = step(lists, initialSeed(42));
+ * ```
+ * 
+ * @param len Array length.
+ * @param generator Generator for the values that fill the list.
+ * @param source Source the seeds of the streams are drawn from.
+ */
+export const independentList = <A>(len: number, generator: Generator<A>, source: Source<number> = Math.random): Generator<A[]> =>
+    list(len, independent(generator, source));
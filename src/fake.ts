@@ -0,0 +1,339 @@
+import { Bounds, Generator, Source, boolean, int, list, listOf, map2, map3, tuple, uniform } from "./elmish-random";
+import { InvalidParameterError } from "./distributions";
+import { fromRegex } from "./strings";
+import { en } from "./locales/en";
+
+export { en } from "./locales/en";
+export { de } from "./locales/de";
+
+/**
+ * An address, see `address`.
+ */
+export interface Address {
+    street: string,
+    houseNumber: string,
+    postalCode: string,
+    city: string,
+
+    /**
+     * The whole address on one line, written the way the locale writes addresses.
+     */
+    formatted: string
+};
+
+/**
+ * A locale data pack for the fake data generators. `en` and `de` come with the library (in `locales/`);
+ * write your own for other languages or to use your own data.
+ * The generators throw an `InvalidParameterError` when they're created with a locale that has an empty list they pick from.
+ */
+export interface Locale {
+    firstNames: string[],
+    lastNames: string[],
+    streets: string[],
+    cities: string[],
+
+    /**
+     * Regular expression for postal codes (see `fromRegex`).
+     */
+    postalCodePattern: string,
+
+    /**
+     * Regular expression for phone numbers (see `fromRegex`).
+     */
+    phonePattern: string,
+
+    emailDomains: string[],
+    companySuffixes: string[],
+    colorNames: string[],
+
+    /**
+     * Writes an address on one line.
+     */
+    formatAddress: (address: Omit<Address, "formatted">) => string
+};
+
+/**
+ * Throws an `InvalidParameterError` unless a list of a locale has values to pick from.
+ *
+ * @internal
+ */
+const validateList = (name: string, parameter: string, values: unknown[]): void => {
+    if (!Array.isArray(values) || values.length === 0) {
+        throw new InvalidParameterError(`${name}: ${parameter} must be a non-empty list.`, parameter, Array.isArray(values) ? 0 : NaN);
+    }
+};
+
+/**
+ * Picks one of the values of a list, which is checked when the generator is created, not when it's drawn from.
+ *
+ * @internal
+ */
+const pick = <A>(name: string, parameter: string, values: A[], source: Source<number>): Generator<A> => {
+    validateList(name, parameter, values);
+    return uniform(values[0], values.slice(1), source);
+};
+
+/**
+ * Turns a name into something that can be part of an email address or username: "Jürgen" -> "juergen".
+ *
+ * @internal
+ */
+const slug = (name: string): string =>
+    name
+        .toLowerCase()
+        .replace(/ä/g, "ae").replace(/ö/g, "oe").replace(/ü/g, "ue").replace(/ß/g, "ss")
+        .normalize("NFD")
+        .replace(/[^a-z0-9]/g, "");
+
+/**
+ * Create generator for first names of a locale.
+ *
+ * ```ts
+ * // firstName : [Locale] [-> Source Float] -> Generator String
+ * // Example
+ * firstName(de).next(); // -> e.g. "Jürgen"
+ * ```
+ */
+export const firstName = (locale: Locale = en, source: Source<number> = Math.random): Generator<string> =>
+    pick("firstName", "firstNames", locale.firstNames, source);
+
+/**
+ * Create generator for last names of a locale.
+ *
+ * ```ts
+ * // lastName : [Locale] [-> Source Float] -> Generator String
+ * // Example
+ * lastName(de).next(); // -> e.g. "Schröder"
+ * ```
+ */
+export const lastName = (locale: Locale = en, source: Source<number> = Math.random): Generator<string> =>
+    pick("lastName", "lastNames", locale.lastNames, source);
+
+/**
+ * Create generator for full names (first and last name) of a locale.
+ *
+ * ```ts
+ * // fullName : [Locale] [-> Source Float] -> Generator String
+ * // Example
+ * fullName().next(); // -> e.g. "Patricia Nguyen"
+ * ```
+ */
+export const fullName = (locale: Locale = en, source: Source<number> = Math.random): Generator<string> =>
+    map2((first, last) => `${first} ${last}`, firstName(locale, source), lastName(locale, source));
+
+/**
+ * Create generator for email addresses made of names of a locale, on domains reserved for examples (they can't reach anybody).
+ *
+ * ```ts
+ * // email : [Locale] [-> Source Float] -> Generator String
+ * // Example
+ * email(de).next(); // -> e.g. "juergen.mueller42@example.org"
+ * ```
+ */
+export const email = (locale: Locale = en, source: Source<number> = Math.random): Generator<string> =>
+    tuple<[string, string, string, number, boolean]>(
+        firstName(locale, source),
+        lastName(locale, source),
+        pick("email", "emailDomains", locale.emailDomains, source),
+        int(1, 99, source),
+        boolean(source)
+    )
+        .map(([first, last, domain, n, withNumber]) =>
+            `${[slug(first), slug(last)].filter(s => s !== "").join(".") || "user"}${withNumber ? n : ""}@${domain}`
+        );
+
+/**
+ * Create generator for usernames made of names of a locale, e.g. "jsmith", "maria_k" or "schroeder1987".
+ * Names without any ASCII letters (e.g. "李") are left out: the other name and a year, or "user" and a year, are used instead.
+ *
+ * ```ts
+ * // username : [Locale] [-> Source Float] -> Generator String
+ * // Example
+ * username(de).next(); // -> e.g. "koehler1987"
+ * ```
+ */
+export const username = (locale: Locale = en, source: Source<number> = Math.random): Generator<string> =>
+    tuple<[string, string, number, number]>(
+        firstName(locale, source),
+        lastName(locale, source),
+        int(0, 3, source),
+        int(1950, 2010, source)
+    )
+        .map(([first, last, style, year]) => {
+            const f = slug(first);
+            const l = slug(last);
+            return f !== "" && l !== ""
+                ? [f[0] + l, `${f}_${l[0]}`, `${l}${year}`, `${f}.${l}`][style]
+                : `${f || l || "user"}${year}`;
+        });
+
+/**
+ * Create generator for phone numbers in the format of a locale.
+ *
+ * ```ts
+ * // phoneNumber : [Locale] [-> Source Float] -> Generator String
+ * // Example
+ * phoneNumber().next(); // -> e.g. "(312) 555-0147"
+ * phoneNumber(de).next(); // -> e.g. "+49 30 4471920"
+ * ```
+ */
+export const phoneNumber = (locale: Locale = en, source: Source<number> = Math.random): Generator<string> =>
+    fromRegex(locale.phonePattern, source);
+
+/**
+ * Create generator for street addresses of a locale.
+ *
+ * ```ts
+ * // address : [Locale] [-> Source Float] -> Generator Address
+ * // Example
+ * address(de).next().formatted; // -> e.g. "Lindenstraße 17, 04109 Leipzig"
+ * ```
+ */
+export const address = (locale: Locale = en, source: Source<number> = Math.random): Generator<Address> =>
+    tuple<[string, number, string, string]>(
+        pick("address", "streets", locale.streets, source),
+        int(1, 200, source),
+        fromRegex(locale.postalCodePattern, source),
+        pick("address", "cities", locale.cities, source)
+    )
+        .map(([street, n, postalCode, city]) => {
+            const parts = { street, houseNumber: String(n), postalCode, city };
+            return { ...parts, formatted: locale.formatAddress(parts) };
+        });
+
+/**
+ * Create generator for company names of a locale, made of last names and a legal form.
+ * Partners always have two different names, never "Becker & Becker".
+ *
+ * ```ts
+ * // companyName : [Locale] [-> Source Float] -> Generator String
+ * // Example
+ * companyName(de).next(); // -> e.g. "Becker & Wolf GmbH"
+ * ```
+ */
+export const companyName = (locale: Locale = en, source: Source<number> = Math.random): Generator<string> => {
+    validateList("companyName", "lastNames", locale.lastNames);
+    const names = Array.from(new Set(locale.lastNames));
+    // the partner is one of the other names: indices past the first name's are shifted by one
+    return map3(
+        ([i, j], partner, suffix) => `${names[i]}${partner && names.length > 1 ? " & " + names[j < i ? j : j + 1] : ""} ${suffix}`,
+        tuple<[number, number]>(int(0, names.length - 1, source), int(0, Math.max(0, names.length - 2), source)),
+        boolean(source),
+        pick("companyName", "companySuffixes", locale.companySuffixes, source)
+    );
+};
+
+/**
+ * @internal
+ */
+const loremWords = [
+    "lorem", "ipsum", "dolor", "sit", "amet", "consectetur", "adipiscing", "elit", "sed", "do", "eiusmod", "tempor",
+    "incididunt", "ut", "labore", "et", "dolore", "magna", "aliqua", "enim", "ad", "minim", "veniam", "quis", "nostrud",
+    "exercitation", "ullamco", "laboris", "nisi", "aliquip", "ex", "ea", "commodo", "consequat", "duis", "aute", "irure",
+    "in", "reprehenderit", "voluptate", "velit", "esse", "cillum", "fugiat", "nulla", "pariatur", "excepteur", "sint",
+    "occaecat", "cupidatat", "non", "proident", "sunt", "culpa", "qui", "officia", "deserunt", "mollit", "anim", "id", "est", "laborum"
+];
+
+/**
+ * Create generator for lorem ipsum sentences with a number of words within bounds.
+ *
+ * ```ts
+ * // loremSentence : [Bounds] [-> Source Float] -> Generator String
+ * // Example
+ * loremSentence({ min: 4, max: 8 }).next(); // -> e.g. "Tempor aute sint ut magna."
+ * ```
+ */
+export const loremSentence = (words: Bounds = { min: 5, max: 12 }, source: Source<number> = Math.random): Generator<string> =>
+    listOf(words, pick("loremSentence", "words", loremWords, source), source)
+        .map(ws => {
+            const text = ws.join(" ");
+            return text.charAt(0).toUpperCase() + text.slice(1) + ".";
+        });
+
+/**
+ * Create generator for lorem ipsum paragraphs with a number of sentences within bounds.
+ *
+ * ```ts
+ * // loremParagraph : [Bounds] [-> Source Float] -> Generator String
+ * // Example
+ * loremParagraph({ min: 2, max: 4 }).next(); // -> e.g. "Duis nulla in est officia. Ut enim ad minim veniam quis."
+ * ```
+ */
+export const loremParagraph = (sentences: Bounds = { min: 3, max: 6 }, source: Source<number> = Math.random): Generator<string> =>
+    listOf(sentences, loremSentence(undefined, source), source)
+        .map(ss => ss.join(" "));
+
+/**
+ * Create generator for random (version 4) UUIDs.
+ *
+ * ```ts
+ * // uuid : [Source Float] -> Generator String
+ * // Example
+ * uuid(cryptoSource()).next(); // -> e.g. "3b241101-e2bb-4255-8caf-4136c566a962"
+ * ```
+ */
+export const uuid = (source: Source<number> = Math.random): Generator<string> =>
+    fromRegex("[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}", source);
+
+/**
+ * Create generator for IPv4 addresses.
+ *
+ * ```ts
+ * // ipv4 : [Source Float] -> Generator String
+ * // Example
+ * ipv4().next(); // -> e.g. "192.0.2.146"
+ * ```
+ */
+export const ipv4 = (source: Source<number> = Math.random): Generator<string> =>
+    list(4, int(0, 255, source))
+        .map(parts => parts.join("."));
+
+/**
+ * Create generator for IPv6 addresses, written in full (8 groups, no `::` shortening).
+ *
+ * ```ts
+ * // ipv6 : [Source Float] -> Generator String
+ * // Example
+ * ipv6().next(); // -> e.g. "2001:db8:85a3:0:0:8a2e:370:7334"
+ * ```
+ */
+export const ipv6 = (source: Source<number> = Math.random): Generator<string> =>
+    list(8, int(0, 65535, source))
+        .map(groups => groups.map(g => g.toString(16)).join(":"));
+
+/**
+ * Create generator for colors as [red, green, blue], each within [0, 255].
+ *
+ * ```ts
+ * // rgbColor : [Source Float] -> Generator (Int, Int, Int)
+ * // Example
+ * rgbColor().next(); // -> e.g. [ 34, 139, 34 ]
+ * ```
+ */
+export const rgbColor = (source: Source<number> = Math.random): Generator<[number, number, number]> =>
+    tuple<[number, number, number]>(int(0, 255, source), int(0, 255, source), int(0, 255, source));
+
+/**
+ * Create generator for colors as CSS hex strings.
+ *
+ * ```ts
+ * // hexColor : [Source Float] -> Generator String
+ * // Example
+ * hexColor().next(); // -> e.g. "#228b22"
+ * ```
+ */
+export const hexColor = (source: Source<number> = Math.random): Generator<string> =>
+    rgbColor(source)
+        .map(rgb => "#" + rgb.map(c => (c < 16 ? "0" : "") + c.toString(16)).join(""));
+
+/**
+ * Create generator for color names of a locale.
+ *
+ * ```ts
+ * // colorName : [Locale] [-> Source Float] -> Generator String
+ * // Example
+ * colorName(de).next(); // -> e.g. "türkis"
+ * ```
+ */
+export const colorName = (locale: Locale = en, source: Source<number> = Math.random): Generator<string> =>
+    pick("colorName", "colorNames", locale.colorNames, source);
@@ -0,0 +1,65 @@
+import { Generator, Source, boolean, constant, float, int, listOf, oneOf, record, recursive } from "./elmish-random";
+import { alphanumeric, printableAscii, string } from "./strings";
+
+/**
+ * Any value that survives `JSON.parse(JSON.stringify(value))` unchanged.
+ */
+export type Json =
+    | null
+    | boolean
+    | number
+    | string
+    | Json[]
+    | { [key: string]: Json };
+
+/**
+ * Options for `json`.
+ */
+export interface JsonOptions {
+    /**
+     * How deep arrays and objects may be nested at most. Defaults to 3.
+     */
+    maxDepth?: number,
+
+    /**
+     * Maximum number of values in an array or object, and characters in a string. Defaults to 5.
+     */
+    maxLength?: number
+};
+
+/**
+ * Create a generator for arbitrary JSON values: `null`, booleans, numbers, strings, and arrays and objects of JSON values.
+ *
+ * ```ts
+ * // json : [JsonOptions] [-> Source Float] -> Generator Json
+ * // Example
+ * const configs = json({ maxDepth: 2 });
+ * console.log(configs.next()); // -> e.g. { "a9": [ true, -412, "Kx~" ], "Q": null }
+ * ```
+ */
+export const json = (options: JsonOptions = {}, source: Source<number> = Math.random): Generator<Json> => {
+    const maxLength = options.maxLength ?? 5;
+    const primitives: Generator<Json> =
+        oneOf<Json>(
+            constant(null),
+            [
+                boolean(source),
+                int(-1000, 1000, source),
+                float(-1e6, 1e6, source),
+                string({ min: 0, max: maxLength }, printableAscii, source)
+            ],
+            source
+        );
+    const keys = string({ min: 1, max: maxLength }, alphanumeric, source);
+
+    return recursive<Json>(
+        primitives,
+        self => oneOf<Json>(
+            listOf({ min: 0, max: maxLength }, self, source),
+            [int(0, maxLength, source).then(size => record(size, keys, self))],
+            source
+        ),
+        { maxDepth: options.maxDepth ?? 3 },
+        source
+    );
+};
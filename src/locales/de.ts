@@ -0,0 +1,37 @@
+import type { Locale } from "../fake";
+
+/**
+ * German locale pack for the fake data generators.
+ * Email domains are the ones reserved for examples.
+ */
+export const de: Locale = {
+    firstNames: [
+        "Maximilian", "Sophie", "Alexander", "Marie", "Paul", "Emma", "Elias", "Hannah", "Ben", "Mia",
+        "Noah", "Lena", "Leon", "Lea", "Louis", "Anna", "Jonas", "Emilia", "Felix", "Clara",
+        "Lukas", "Johanna", "Finn", "Lina", "Moritz", "Charlotte", "Jürgen", "Ursula", "Günter", "Jörg",
+        "Tobias", "Katrin", "Stefan", "Sabine", "Matthias", "Petra", "Andreas", "Monika", "Michael", "Birgit"
+    ],
+    lastNames: [
+        "Müller", "Schmidt", "Schneider", "Fischer", "Weber", "Meyer", "Wagner", "Becker", "Schulz", "Hoffmann",
+        "Schäfer", "Koch", "Bauer", "Richter", "Klein", "Wolf", "Schröder", "Neumann", "Schwarz", "Zimmermann",
+        "Braun", "Krüger", "Hofmann", "Hartmann", "Lange", "Schmitt", "Werner", "Schmitz", "Krause", "Meier",
+        "Lehmann", "Schmid", "Schulze", "Maier", "Köhler", "Herrmann", "König", "Walter", "Mayer", "Huber"
+    ],
+    streets: [
+        "Hauptstraße", "Schulstraße", "Gartenstraße", "Bahnhofstraße", "Dorfstraße", "Bergstraße", "Birkenweg",
+        "Lindenstraße", "Kirchstraße", "Waldstraße", "Ringstraße", "Schillerstraße", "Goethestraße", "Am Markt",
+        "Mühlenweg", "Wiesenweg", "Feldstraße", "Rosenstraße", "Friedhofstraße", "Jahnstraße"
+    ],
+    cities: [
+        "Berlin", "Hamburg", "München", "Köln", "Frankfurt am Main", "Stuttgart", "Düsseldorf", "Leipzig",
+        "Dortmund", "Essen", "Bremen", "Dresden", "Hannover", "Nürnberg", "Duisburg", "Bochum", "Wuppertal",
+        "Bielefeld", "Bonn", "Münster"
+    ],
+    postalCodePattern: "[0-9]{5}",
+    phonePattern: "\\+49 (30|40|89|221|69|711) \\d{6,8}",
+    emailDomains: ["example.com", "example.org", "example.net"],
+    companySuffixes: ["GmbH", "AG", "KG", "GmbH & Co. KG", "e.K.", "OHG"],
+    colorNames: ["rot", "grün", "blau", "gelb", "orange", "lila", "rosa", "braun", "schwarz", "weiß", "grau", "türkis"],
+    formatAddress: ({ street, houseNumber, postalCode, city }) =>
+        `${street} ${houseNumber}, ${postalCode} ${city}`
+};
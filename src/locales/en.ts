@@ -0,0 +1,37 @@
+import type { Locale } from "../fake";
+
+/**
+ * English (US) locale pack for the fake data generators.
+ * Phone numbers use the 555-01xx range reserved for fiction, email domains the ones reserved for examples.
+ */
+export const en: Locale = {
+    firstNames: [
+        "James", "Mary", "Robert", "Patricia", "John", "Jennifer", "Michael", "Linda", "David", "Elizabeth",
+        "William", "Barbara", "Richard", "Susan", "Joseph", "Jessica", "Thomas", "Sarah", "Charles", "Karen",
+        "Christopher", "Lisa", "Daniel", "Nancy", "Matthew", "Betty", "Anthony", "Margaret", "Mark", "Sandra",
+        "Steven", "Ashley", "Paul", "Emily", "Andrew", "Donna", "Joshua", "Michelle", "Kevin", "Carol"
+    ],
+    lastNames: [
+        "Smith", "Johnson", "Williams", "Brown", "Jones", "Garcia", "Miller", "Davis", "Rodriguez", "Martinez",
+        "Hernandez", "Lopez", "Gonzalez", "Wilson", "Anderson", "Thomas", "Taylor", "Moore", "Jackson", "Martin",
+        "Lee", "Perez", "Thompson", "White", "Harris", "Sanchez", "Clark", "Ramirez", "Lewis", "Robinson",
+        "Walker", "Young", "Allen", "King", "Wright", "Scott", "Torres", "Nguyen", "Hill", "Flores"
+    ],
+    streets: [
+        "Main Street", "Oak Avenue", "Maple Drive", "Cedar Lane", "Pine Street", "Elm Street", "Washington Avenue",
+        "Lake Road", "Hill Street", "Park Avenue", "Sunset Boulevard", "River Road", "Church Street", "Highland Avenue",
+        "Mill Road", "Spring Street", "Forest Drive", "Meadow Lane", "Chestnut Street", "Willow Way"
+    ],
+    cities: [
+        "Springfield", "Riverside", "Franklin", "Greenville", "Bristol", "Clinton", "Fairview", "Salem", "Madison",
+        "Georgetown", "Arlington", "Ashland", "Oxford", "Dover", "Burlington", "Manchester", "Milton", "Newport",
+        "Jackson", "Auburn"
+    ],
+    postalCodePattern: "\\d{5}",
+    phonePattern: "\\([2-9]\\d{2}\\) 555-01\\d{2}",
+    emailDomains: ["example.com", "example.org", "example.net"],
+    companySuffixes: ["Inc.", "LLC", "Corp.", "Group", "& Sons", "Holdings", "Partners"],
+    colorNames: ["red", "green", "blue", "yellow", "orange", "purple", "pink", "brown", "black", "white", "gray", "teal"],
+    formatAddress: ({ street, houseNumber, postalCode, city }) =>
+        `${houseNumber} ${street}, ${city} ${postalCode}`
+};
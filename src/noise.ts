@@ -0,0 +1,309 @@
+import { Generator, Source, shuffle } from "./elmish-random";
+import { validate } from "./distributions";
+
+/**
+ * A noise field: a smooth function of 1, 2 or 3 coordinates with values in [-1, 1].
+ * Nearby coordinates give similar values, the same coordinates always the same value.
+ */
+export type Noise = (x: number, y?: number, z?: number) => number;
+
+/**
+ * Options for `fbm`.
+ */
+export interface FbmOptions {
+    /**
+     * Number of layers of noise added up. Defaults to 4.
+     */
+    octaves?: number,
+
+    /**
+     * Factor the frequency grows by from one octave to the next. Defaults to 2.
+     */
+    lacunarity?: number,
+
+    /**
+     * Factor the amplitude shrinks by from one octave to the next. Defaults to 0.5.
+     */
+    gain?: number
+};
+
+/**
+ * Options for `noiseGrid`.
+ */
+export interface NoiseGridOptions extends FbmOptions {
+    /**
+     * Noise the grid is sampled from. Defaults to "simplex".
+     */
+    kind?: "perlin" | "simplex",
+
+    /**
+     * Distance between neighbouring cells in noise coordinates. Smaller scales give smoother grids. Defaults to 0.05.
+     */
+    scale?: number
+};
+
+/**
+ * A random permutation of 0..255, written twice so lookups of `i + j` don't have to wrap.
+ *
+ * @internal
+ */
+const permutations = (source: Source<number>): Generator<number[]> =>
+    shuffle(Array.from({ length: 256 }, (_, i) => i), source)
+        .map(p => p.concat(p));
+
+/**
+ * Keeps rounding and the odd extreme corner case within [-1, 1].
+ *
+ * @internal
+ */
+const clamp = (x: number): number =>
+    Math.max(-1, Math.min(1, x));
+
+/**
+ * @internal
+ */
+const fade = (t: number): number =>
+    t * t * t * (t * (t * 6 - 15) + 10);
+
+/**
+ * @internal
+ */
+const lerp = (t: number, a: number, b: number): number =>
+    a + t * (b - a);
+
+/**
+ * Dot product of the coordinates with one of the 12 edge gradients of a cube (Perlin's improved noise).
+ *
+ * @internal
+ */
+const gradient = (hash: number, x: number, y: number, z: number): number => {
+    const h = hash & 15;
+    const u = h < 8 ? x : y;
+    const v = h < 4 ? y : h === 12 || h === 14 ? x : z;
+    return ((h & 1) === 0 ? u : -u) + ((h & 2) === 0 ? v : -v);
+};
+
+/**
+ * Perlin's improved noise (2002) with the given permutation.
+ *
+ * @internal
+ */
+const perlinNoise = (p: number[]): Noise => (x, y = 0, z = 0) => {
+    const X = Math.floor(x) & 255;
+    const Y = Math.floor(y) & 255;
+    const Z = Math.floor(z) & 255;
+    x -= Math.floor(x);
+    y -= Math.floor(y);
+    z -= Math.floor(z);
+    const u = fade(x);
+    const v = fade(y);
+    const w = fade(z);
+    const A = p[X] + Y;
+    const AA = p[A] + Z;
+    const AB = p[A + 1] + Z;
+    const B = p[X + 1] + Y;
+    const BA = p[B] + Z;
+    const BB = p[B + 1] + Z;
+
+    return clamp(lerp(w,
+        lerp(v,
+            lerp(u, gradient(p[AA], x, y, z), gradient(p[BA], x - 1, y, z)),
+            lerp(u, gradient(p[AB], x, y - 1, z), gradient(p[BB], x - 1, y - 1, z))),
+        lerp(v,
+            lerp(u, gradient(p[AA + 1], x, y, z - 1), gradient(p[BA + 1], x - 1, y, z - 1)),
+            lerp(u, gradient(p[AB + 1], x, y - 1, z - 1), gradient(p[BB + 1], x - 1, y - 1, z - 1)))));
+};
+
+/**
+ * @internal
+ */
+const gradients3: Array<[number, number, number]> = [
+    [1, 1, 0], [-1, 1, 0], [1, -1, 0], [-1, -1, 0],
+    [1, 0, 1], [-1, 0, 1], [1, 0, -1], [-1, 0, -1],
+    [0, 1, 1], [0, -1, 1], [0, 1, -1], [0, -1, -1]
+];
+
+/**
+ * Contribution of a simplex corner at offset (x, y, z) with the given gradient.
+ *
+ * @internal
+ */
+const corner = (falloff: number, [gx, gy, gz]: [number, number, number], x: number, y: number, z: number): number => {
+    const t = falloff - x * x - y * y - z * z;
+    return t < 0
+        ? 0
+        : t * t * t * t * (gx * x + gy * y + gz * z);
+};
+
+/**
+ * 2D simplex noise (after Stefan Gustavson's reference implementation).
+ *
+ * @internal
+ */
+const simplex2 = (p: number[], x: number, y: number): number => {
+    const F2 = (Math.sqrt(3) - 1) / 2;
+    const G2 = (3 - Math.sqrt(3)) / 6;
+    const s = (x + y) * F2;
+    const i = Math.floor(x + s);
+    const j = Math.floor(y + s);
+    const t = (i + j) * G2;
+    const x0 = x - (i - t);
+    const y0 = y - (j - t);
+    const [i1, j1] = x0 > y0 ? [1, 0] : [0, 1];
+    const x1 = x0 - i1 + G2;
+    const y1 = y0 - j1 + G2;
+    const x2 = x0 - 1 + 2 * G2;
+    const y2 = y0 - 1 + 2 * G2;
+    const ii = i & 255;
+    const jj = j & 255;
+
+    return 70 * (
+        corner(0.5, gradients3[p[ii + p[jj]] % 12], x0, y0, 0)
+        + corner(0.5, gradients3[p[ii + i1 + p[jj + j1]] % 12], x1, y1, 0)
+        + corner(0.5, gradients3[p[ii + 1 + p[jj + 1]] % 12], x2, y2, 0)
+    );
+};
+
+/**
+ * 3D simplex noise (after Stefan Gustavson's reference implementation).
+ *
+ * @internal
+ */
+const simplex3 = (p: number[], x: number, y: number, z: number): number => {
+    const F3 = 1 / 3;
+    const G3 = 1 / 6;
+    const s = (x + y + z) * F3;
+    const i = Math.floor(x + s);
+    const j = Math.floor(y + s);
+    const k = Math.floor(z + s);
+    const t = (i + j + k) * G3;
+    const x0 = x - (i - t);
+    const y0 = y - (j - t);
+    const z0 = z - (k - t);
+
+    // which of the six simplices of the cube the point is in
+    const [i1, j1, k1, i2, j2, k2] =
+        x0 >= y0
+            ? y0 >= z0 ? [1, 0, 0, 1, 1, 0]
+                : x0 >= z0 ? [1, 0, 0, 1, 0, 1]
+                    : [0, 0, 1, 1, 0, 1]
+            : y0 < z0 ? [0, 0, 1, 0, 1, 1]
+                : x0 < z0 ? [0, 1, 0, 0, 1, 1]
+                    : [0, 1, 0, 1, 1, 0];
+
+    const ii = i & 255;
+    const jj = j & 255;
+    const kk = k & 255;
+    const g = (di: number, dj: number, dk: number) =>
+        gradients3[p[ii + di + p[jj + dj + p[kk + dk]]] % 12];
+
+    return 32 * (
+        corner(0.6, g(0, 0, 0), x0, y0, z0)
+        + corner(0.6, g(i1, j1, k1), x0 - i1 + G3, y0 - j1 + G3, z0 - k1 + G3)
+        + corner(0.6, g(i2, j2, k2), x0 - i2 + 2 * G3, y0 - j2 + 2 * G3, z0 - k2 + 2 * G3)
+        + corner(0.6, g(1, 1, 1), x0 - 1 + 3 * G3, y0 - 1 + 3 * G3, z0 - 1 + 3 * G3)
+    );
+};
+
+/**
+ * Create generator for Perlin noise fields (Perlin's improved noise).
+ * Every field has its own permutation table drawn from the source, so a seeded source gives the same fields every time.
+ * Values are 0 at integer coordinates, so sample between them (see `noiseGrid`).
+ *
+ * ```ts
+ * // perlin : [Source Float] -> Generator Noise
+ * // Example: a height map that is the same for every run
+ * const heights = perlin(pcg32(2024)).next();
+ * console.log(heights(0.5, 1.25)); // -> e.g. 0.2170
+ * console.log(heights(0.51, 1.25)); // -> e.g. 0.2203
+ * ```
+ */
+export const perlin = (source: Source<number> = Math.random): Generator<Noise> =>
+    permutations(source).map(perlinNoise);
+
+/**
+ * Create generator for simplex noise fields. 1D and 2D noise is 2D simplex noise, 3D noise is 3D simplex noise.
+ * Like `perlin`, but without its grid-aligned artifacts and faster in 3D.
+ *
+ * ```ts
+ * // simplex : [Source Float] -> Generator Noise
+ * // Example
+ * const clouds = simplex(pcg32(7)).next();
+ * console.log(clouds(3.2, 4.7, 0.1)); // -> e.g. -0.3561
+ * ```
+ */
+export const simplex = (source: Source<number> = Math.random): Generator<Noise> =>
+    permutations(source).map((p): Noise => (x, y = 0, z) =>
+        clamp(z === undefined
+            ? simplex2(p, x, y)
+            : simplex3(p, x, y, z)));
+
+/**
+ * Fractal Brownian motion: adds up octaves of a noise field with growing frequency and shrinking amplitude,
+ * which gives natural looking detail (terrain, clouds). The result is scaled back into [-1, 1].
+ *
+ * ```ts
+ * // fbm : Noise [-> FbmOptions] -> Noise
+ * // Example
+ * const terrain = fbm(simplex(pcg32(1)).next(), { octaves: 6 });
+ * console.log(terrain(0.3, 0.7)); // -> e.g. 0.1284
+ * ```
+ *
+ * Throws an `InvalidParameterError` unless `octaves` is an int >= 1, `lacunarity` a finite number and `gain` a finite number > 0.
+ */
+export const fbm = (noise: Noise, options: FbmOptions = {}): Noise => {
+    const octaves = options.octaves ?? 4;
+    const lacunarity = options.lacunarity ?? 2;
+    const gain = options.gain ?? 0.5;
+    validate("fbm", "octaves", octaves, Number.isSafeInteger(octaves) && octaves >= 1, "an int >= 1");
+    validate("fbm", "lacunarity", lacunarity, Number.isFinite(lacunarity), "a finite number");
+    validate("fbm", "gain", gain, Number.isFinite(gain) && gain > 0, "a finite number > 0");
+
+    return (x, y, z) => {
+        let sum = 0;
+        let amplitude = 1;
+        let frequency = 1;
+        let total = 0;
+        for (let i = 0; i < octaves; i += 1) {
+            sum += amplitude * noise(
+                x * frequency,
+                y === undefined ? undefined : y * frequency,
+                z === undefined ? undefined : z * frequency
+            );
+            total += amplitude;
+            amplitude *= gain;
+            frequency *= lacunarity;
+        }
+        return sum / total;
+    };
+};
+
+/**
+ * Create generator for grids (rows of cells) of fractal noise in [-1, 1]: every grid samples a new noise field,
+ * neighbouring cells have similar values. Threshold the values for caves and islands, or use them as heights.
+ *
+ * ```ts
+ * // noiseGrid : Int -> Int [-> NoiseGridOptions] [-> Source Float] -> Generator (List (List Float))
+ * // Example: islands
+ * const islands = noiseGrid(60, 20, { scale: 0.08 }, pcg32(3))
+ *     .map(rows => rows.map(row => row.map(h => h > 0.1 ? "#" : "~").join("")).join("\n"));
+ * console.log(islands.next());
+ * ```
+ *
+ * Throws an `InvalidParameterError` unless `width` and `height` are ints >= 0.
+ *
+ * @param width Number of cells in a row.
+ * @param height Number of rows.
+ */
+export const noiseGrid = (width: number, height: number, options: NoiseGridOptions = {}, source: Source<number> = Math.random): Generator<number[][]> => {
+    validate("noiseGrid", "width", width, Number.isSafeInteger(width) && width >= 0, "an int >= 0");
+    validate("noiseGrid", "height", height, Number.isSafeInteger(height) && height >= 0, "an int >= 0");
+    const scale = options.scale ?? 0.05;
+    const fields = options.kind === "perlin" ? perlin(source) : simplex(source);
+    return fields.map(noise => {
+        const field = fbm(noise, options);
+        return Array.from({ length: height }, (_, row) =>
+            Array.from({ length: width }, (_, column) => field(column * scale, row * scale))
+        );
+    });
+};
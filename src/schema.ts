@@ -0,0 +1,397 @@
+import { Generator, Source, boolean, constant, float, int, lazy, listOf, oneOf, tuple, uniform } from "./elmish-random";
+import { Json, json } from "./json";
+import { fromRegex, printableAscii, regexLengths, string } from "./strings";
+
+/**
+ * The types of the `type` keyword.
+ */
+export type SchemaType = "null" | "boolean" | "integer" | "number" | "string" | "array" | "object";
+
+/**
+ * The part of JSON Schema `fromJsonSchema` understands.
+ * `true` allows any value, `false` none.
+ */
+export type JsonSchema = boolean | {
+    type?: SchemaType | SchemaType[],
+    enum?: Json[],
+    const?: Json,
+    minimum?: number,
+    maximum?: number,
+    exclusiveMinimum?: number,
+    exclusiveMaximum?: number,
+    minLength?: number,
+    maxLength?: number,
+    pattern?: string,
+    items?: JsonSchema | JsonSchema[],
+    minItems?: number,
+    maxItems?: number,
+    properties?: { [key: string]: JsonSchema },
+    required?: string[],
+    additionalProperties?: JsonSchema,
+    oneOf?: JsonSchema[],
+    anyOf?: JsonSchema[],
+    $ref?: string,
+    definitions?: { [key: string]: JsonSchema },
+    $defs?: { [key: string]: JsonSchema },
+    [keyword: string]: unknown
+};
+
+/**
+ * Options for `fromJsonSchema`.
+ */
+export interface JsonSchemaOptions {
+    /**
+     * How deep arrays and objects may be nested at most. Deeper down arrays only get `minItems` values
+     * and objects only their required properties, so recursive schemas (via `$ref`) end. Defaults to 4.
+     */
+    maxDepth?: number
+};
+
+/**
+ * Thrown when a schema uses a keyword `fromJsonSchema` doesn't support, or can't be satisfied.
+ * `path` points to the offending keyword, e.g. `#/properties/email/format`.
+ */
+export class UnsupportedSchemaError extends Error {
+    constructor(message: string, readonly path: string) {
+        super(message);
+        this.name = "UnsupportedSchemaError";
+    }
+}
+
+/**
+ * Keywords that only describe a schema and don't restrict its values.
+ *
+ * @internal
+ */
+const annotations = [
+    "$schema", "$id", "$comment", "title", "description", "default", "examples",
+    "readOnly", "writeOnly", "deprecated", "definitions", "$defs"
+];
+
+/**
+ * @internal
+ */
+const keywords = annotations.concat([
+    "type", "enum", "const", "minimum", "maximum", "exclusiveMinimum", "exclusiveMaximum",
+    "minLength", "maxLength", "pattern", "items", "minItems", "maxItems",
+    "properties", "required", "additionalProperties", "oneOf", "anyOf", "$ref"
+]);
+
+/**
+ * The type of a schema without a `type` keyword, guessed from its other keywords.
+ *
+ * @internal
+ */
+const inferType = (schema: { [keyword: string]: unknown }): SchemaType | undefined => {
+    const has = (...names: string[]) => names.some(name => schema[name] !== undefined);
+    return has("properties", "required") ? "object"
+        : has("items", "minItems", "maxItems") ? "array"
+        : has("pattern", "minLength", "maxLength") ? "string"
+        : has("minimum", "maximum", "exclusiveMinimum", "exclusiveMaximum") ? "number"
+        : undefined;
+};
+
+/**
+ * Whether two JSON values are equal, comparing arrays and objects by their contents.
+ *
+ * @internal
+ */
+const equal = (a: Json, b: Json): boolean => {
+    if (a === null || b === null || typeof a !== "object" || typeof b !== "object") {
+        return a === b;
+    }
+    else if (Array.isArray(a) || Array.isArray(b)) {
+        return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((x, i) => equal(x, b[i]));
+    }
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => key in b && equal(a[key], b[key]));
+};
+
+/**
+ * Whether a JSON value has one of the types of the `type` keyword.
+ *
+ * @internal
+ */
+const hasType = (type: SchemaType, value: Json): boolean => {
+    switch (type) {
+        case "null":
+            return value === null;
+        case "integer":
+            return typeof value === "number" && Number.isInteger(value);
+        case "array":
+            return Array.isArray(value);
+        case "object":
+            return value !== null && typeof value === "object" && !Array.isArray(value);
+        default:
+            return typeof value === type;
+    }
+};
+
+/**
+ * Adds the keywords of an alternative (of `oneOf`/`anyOf`) to the keywords next to it.
+ * Properties and required properties of both are combined, other keywords of the alternative win.
+ *
+ * @internal
+ */
+const merge = (base: Exclude<JsonSchema, boolean>, alternative: Exclude<JsonSchema, boolean>): Exclude<JsonSchema, boolean> => {
+    const merged = { ...base, ...alternative };
+    if (base.properties && alternative.properties) {
+        merged.properties = { ...base.properties, ...alternative.properties };
+    }
+    if (base.required && alternative.required) {
+        const required = base.required.concat(alternative.required);
+        merged.required = required.filter((key, i) => required.indexOf(key) === i);
+    }
+    return merged;
+};
+
+/**
+ * Create a generator for values that are valid against a JSON Schema.
+ *
+ * ```ts
+ * // fromJsonSchema : JsonSchema [-> JsonSchemaOptions] [-> Source Float] -> Generator Json
+ * // Example
+ * const users = fromJsonSchema({
+ *     type: "object",
+ *     properties: {
+ *         id: { type: "integer", minimum: 1 },
+ *         name: { type: "string", minLength: 1, maxLength: 20 },
+ *         role: { enum: ["admin", "user"] },
+ *         tags: { type: "array", items: { type: "string", pattern: "^[a-z]{3,8}$" }, maxItems: 3 }
+ *     },
+ *     required: ["id", "name"]
+ * });
+ * console.log(users.next()); // -> e.g. { id: 412, name: "q#V", tags: ["kqmw"] }
+ * ```
+ *
+ * Supported are `type` (also lists of types), `enum`, `const`, `minimum`, `maximum`, `exclusiveMinimum`, `exclusiveMaximum`,
+ * `minLength`, `maxLength`, `pattern` (see `fromRegex`), `items` (also lists of schemas for tuples), `minItems`, `maxItems`,
+ * `properties`, `required`, `oneOf`, `anyOf` and local `$ref`s (`#`, `#/definitions/...`, `#/$defs/...`).
+ * `additionalProperties` applies to required properties missing from `properties`; generated objects have no other additional properties.
+ * Optional properties are left out half of the time. Values that match more than one of the schemas of a `oneOf` are skipped,
+ * so alternatives that mostly overlap make generating slow.
+ * Annotations (`title`, `description`, ...) are ignored. Any other keyword (`format`, `allOf`, `multipleOf`, ...)
+ * throws an `UnsupportedSchemaError`, and so do schemas no value can satisfy, like `{ exclusiveMinimum: 1, exclusiveMaximum: 1 }`
+ * or `{ pattern: "^a{2}$", minLength: 5 }`.
+ */
+export const fromJsonSchema = (schema: JsonSchema, options: JsonSchemaOptions = {}, source: Source<number> = Math.random): Generator<Json> => {
+    const maxDepth = options.maxDepth ?? 4;
+
+    const resolve = (ref: string, path: string): JsonSchema => {
+        if (ref !== "#" && !ref.startsWith("#/")) {
+            throw new UnsupportedSchemaError(`fromJsonSchema: only local $refs are supported, got "${ref}".`, path);
+        }
+        return ref
+            .split("/")
+            .slice(1)
+            .map(segment => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+            .reduce((target: unknown, segment) => {
+                if (target === null || typeof target !== "object" || !(segment in (target as object))) {
+                    throw new UnsupportedSchemaError(`fromJsonSchema: $ref "${ref}" doesn't point to a schema.`, path);
+                }
+                return (target as { [key: string]: unknown })[segment];
+            }, schema) as JsonSchema;
+    };
+
+    // whether a value is valid against a schema, for the keywords build supports
+    const matches = (current: JsonSchema, value: Json): boolean => {
+        if (typeof current === "boolean") {
+            return current;
+        }
+        const { minimum, maximum, exclusiveMinimum, exclusiveMaximum, minLength, maxLength, pattern, items, minItems, maxItems } = current;
+        const types = current.type === undefined ? [] : Array.isArray(current.type) ? current.type : [current.type];
+        if ((current.$ref !== undefined && !matches(resolve(current.$ref, "#"), value))
+            || (current.oneOf !== undefined && current.oneOf.filter(alternative => matches(alternative, value)).length !== 1)
+            || (current.anyOf !== undefined && !current.anyOf.some(alternative => matches(alternative, value)))
+            || (current.const !== undefined && !equal(current.const, value))
+            || (current.enum !== undefined && !current.enum.some(option => equal(option, value)))
+            || (types.length > 0 && !types.some(type => hasType(type, value)))) {
+            return false;
+        }
+        else if (typeof value === "number") {
+            return !(value < (minimum ?? -Infinity) || value > (maximum ?? Infinity)
+                || value <= (exclusiveMinimum ?? -Infinity) || value >= (exclusiveMaximum ?? Infinity));
+        }
+        else if (typeof value === "string") {
+            const length = Array.from(value).length;
+            return length >= (minLength ?? 0) && length <= (maxLength ?? Infinity)
+                && (pattern === undefined || new RegExp(pattern).test(value));
+        }
+        else if (Array.isArray(value)) {
+            return value.length >= (minItems ?? 0) && value.length <= (maxItems ?? Infinity)
+                && value.every((item, i) => matches(Array.isArray(items) ? items[i] ?? true : items ?? true, item));
+        }
+        else if (value !== null && typeof value === "object") {
+            const properties = current.properties ?? {};
+            return (current.required ?? []).every(key => key in value)
+                && Object.keys(value).every(key => matches(key in properties ? properties[key] : current.additionalProperties ?? true, value[key]));
+        }
+        return true;
+    };
+
+    const build = (current: JsonSchema, path: string, depth: number): Generator<Json> => {
+        if (current === true) {
+            return json({ maxDepth: Math.max(0, maxDepth - depth) }, source);
+        }
+        else if (current === false) {
+            throw new UnsupportedSchemaError("fromJsonSchema: the schema `false` allows no values.", path);
+        }
+
+        const unsupported = Object.keys(current).find(keyword => keywords.indexOf(keyword) === -1);
+        if (unsupported !== undefined) {
+            throw new UnsupportedSchemaError(`fromJsonSchema: unsupported keyword "${unsupported}".`, `${path}/${unsupported}`);
+        }
+
+        const { oneOf: one, anyOf: some, ...rest } = current;
+        const alternatives = one ?? some;
+        if (alternatives !== undefined) {
+            const keyword = one !== undefined ? "oneOf" : "anyOf";
+            if (alternatives.length === 0) {
+                throw new UnsupportedSchemaError(`fromJsonSchema: ${keyword} must not be empty.`, `${path}/${keyword}`);
+            }
+            // sibling keywords apply to every alternative
+            const merged = alternatives.map(alternative =>
+                typeof alternative === "boolean" ? alternative : merge(rest, alternative)
+            );
+            const [first, ...others] = merged.map((alternative, i) => build(alternative, `${path}/${keyword}/${i}`, depth));
+            const values = oneOf(first, others, source);
+            return one === undefined
+                ? values
+                : values.filter(value => merged.filter(alternative => matches(alternative, value)).length === 1);
+        }
+        else if (current.$ref !== undefined) {
+            // resolved right away for early errors, but built lazily so recursive schemas don't loop
+            const target = resolve(current.$ref, `${path}/$ref`);
+            return lazy(() => build(target, current.$ref as string, depth));
+        }
+        else if (current.const !== undefined) {
+            return constant(current.const);
+        }
+        else if (current.enum !== undefined) {
+            if (current.enum.length === 0) {
+                throw new UnsupportedSchemaError("fromJsonSchema: enum must not be empty.", `${path}/enum`);
+            }
+            return uniform(current.enum[0], current.enum.slice(1), source);
+        }
+
+        const types = current.type === undefined
+            ? [inferType(current)]
+            : Array.isArray(current.type) ? current.type : [current.type];
+        if (types.length === 0) {
+            throw new UnsupportedSchemaError("fromJsonSchema: type must not be empty.", `${path}/type`);
+        }
+        const [first, ...others] = types.map(type => buildType(type, current, path, depth));
+        return others.length === 0
+            ? first
+            : oneOf(first, others, source);
+    };
+
+    const buildType = (type: SchemaType | undefined, current: Exclude<JsonSchema, boolean>, path: string, depth: number): Generator<Json> => {
+        switch (type) {
+            case undefined:
+                return build(true, path, depth);
+            case "null":
+                return constant(null);
+            case "boolean":
+                return boolean(source);
+            case "integer":
+            case "number":
+                return numbers(type, current, path);
+            case "string":
+                return strings(current, path);
+            case "array": {
+                const items = current.items ?? true;
+                const min = current.minItems ?? 0;
+                const max = depth < maxDepth ? current.maxItems ?? min + 5 : min;
+                if (min > max) {
+                    throw new UnsupportedSchemaError(`fromJsonSchema: minItems ${min} is greater than maxItems ${max}.`, path);
+                }
+                return Array.isArray(items)
+                    ? tuple<Json[]>(...items.map((item, i) => build(item, `${path}/items/${i}`, depth + 1)))
+                    : listOf({ min, max }, build(items, `${path}/items`, depth + 1), source);
+            }
+            case "object": {
+                const properties = current.properties ?? {};
+                const required = current.required ?? [];
+                const additional = current.additionalProperties ?? true;
+                const missing = required.find(key => !(key in properties));
+                if (missing !== undefined && additional === false) {
+                    throw new UnsupportedSchemaError(`fromJsonSchema: required property "${missing}" is not allowed by additionalProperties.`, `${path}/required`);
+                }
+                // below maxDepth only the required properties are generated
+                const keys = Object.keys(properties)
+                    .concat(required.filter(key => !(key in properties)))
+                    .filter(key => required.indexOf(key) !== -1 || depth < maxDepth);
+                const entries = keys
+                    .map(key => {
+                        const value = key in properties
+                            ? build(properties[key], `${path}/properties/${key}`, depth + 1)
+                            : build(additional, `${path}/additionalProperties`, depth + 1);
+                        return required.indexOf(key) !== -1
+                            ? value
+                            : boolean(source).then(present => present ? value : constant(undefined));
+                    });
+                return tuple<Array<Json | undefined>>(...entries)
+                    .map(values => keys.reduce((acc: { [key: string]: Json }, key, i) => {
+                        const value = values[i];
+                        if (value !== undefined) {
+                            acc[key] = value;
+                        }
+                        return acc;
+                    }, {}));
+            }
+            default:
+                throw new UnsupportedSchemaError(`fromJsonSchema: unknown type "${type}".`, `${path}/type`);
+        }
+    };
+
+    const numbers = (type: "integer" | "number", current: Exclude<JsonSchema, boolean>, path: string): Generator<Json> => {
+        const { minimum, maximum, exclusiveMinimum, exclusiveMaximum } = current;
+        const lo = Math.max(minimum ?? -Infinity, exclusiveMinimum ?? -Infinity);
+        const hi = Math.min(maximum ?? Infinity, exclusiveMaximum ?? Infinity);
+        const min = Number.isFinite(lo) ? lo : Number.isFinite(hi) ? hi - 1000 : -1000;
+        const max = Number.isFinite(hi) ? hi : min + 2000;
+        const minExclusive = exclusiveMinimum !== undefined && exclusiveMinimum >= (minimum ?? -Infinity);
+        const maxExclusive = exclusiveMaximum !== undefined && exclusiveMaximum <= (maximum ?? Infinity);
+        if (min > max || (min === max && (minExclusive || maxExclusive))) {
+            throw new UnsupportedSchemaError(`fromJsonSchema: there is no ${type} between ${min} and ${max}.`, path);
+        }
+
+        if (type === "integer") {
+            const intMin = minExclusive ? Math.floor(min) + 1 : Math.ceil(min);
+            const intMax = maxExclusive ? Math.ceil(max) - 1 : Math.floor(max);
+            if (intMin > intMax) {
+                throw new UnsupportedSchemaError(`fromJsonSchema: there is no integer between ${min} and ${max}.`, path);
+            }
+            return int(intMin, intMax, source);
+        }
+        // float never generates max, so only an exclusive minimum has to be filtered out
+        return float(min, max, source)
+            .filter(x => exclusiveMinimum === undefined || x > exclusiveMinimum);
+    };
+
+    const strings = (current: Exclude<JsonSchema, boolean>, path: string): Generator<Json> => {
+        const min = current.minLength ?? 0;
+        const max = current.maxLength ?? (current.pattern === undefined ? min + 10 : Infinity);
+        if (min > max) {
+            throw new UnsupportedSchemaError(`fromJsonSchema: minLength ${min} is greater than maxLength ${max}.`, path);
+        }
+        else if (current.pattern === undefined) {
+            return string({ min, max }, printableAscii, source);
+        }
+
+        const patterns = fromRegex(current.pattern, source);
+        const lengths = regexLengths(current.pattern);
+        if (lengths.max < min || lengths.min > max) {
+            throw new UnsupportedSchemaError(
+                `fromJsonSchema: pattern generates strings of ${lengths.min} to ${lengths.max} characters, not of ${min} to ${max}.`, `${path}/pattern`
+            );
+        }
+        // lengths are counted in code points, like JSON Schema does
+        return lengths.min >= min && lengths.max <= max
+            ? patterns
+            : patterns.filter(s => Array.from(s).length >= min && Array.from(s).length <= max);
+    };
+
+    return build(schema, "#", 0);
+};
@@ -0,0 +1,294 @@
+import { Generator, Source, float, frequency, fromSource, list } from "./elmish-random";
+import { InvalidParameterError, normal, validate } from "./distributions";
+
+/**
+ * A point in the plane.
+ */
+export type Point = [number, number];
+
+/**
+ * A point in space.
+ */
+export type Point3 = [number, number, number];
+
+/**
+ * A unit quaternion [w, x, y, z], describing a rotation in space.
+ */
+export type Quaternion = [number, number, number, number];
+
+/**
+ * Options for `poissonDisk`.
+ */
+export interface PoissonDiskOptions {
+    /**
+     * How many candidates are tried around a point before it is given up. More give denser packings but take longer. Defaults to 30.
+     */
+    maxAttempts?: number
+};
+
+/**
+ * Twice the signed area of a triangle, positive if a, b, c are counterclockwise.
+ *
+ * @internal
+ */
+const cross = (a: Point, b: Point, c: Point): number =>
+    (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+
+/**
+ * Create generator for points in a circle (a disk), uniform by area - not clustered around the center like
+ * a random angle and a random radius would be.
+ *
+ * ```ts
+ * // pointInCircle : Point -> Float [-> Source Float] -> Generator Point
+ * // Example
+ * const raindrops = pointInCircle([0, 0], 10);
+ * console.log(raindrops.next()); // -> e.g. [ -3.2129, 7.0342 ]
+ * ```
+ */
+export const pointInCircle = (center: Point, radius: number, source: Source<number> = Math.random): Generator<Point> => {
+    validate("pointInCircle", "radius", radius, Number.isFinite(radius) && radius >= 0, "a finite number >= 0");
+    return fromSource(s => {
+        const r = radius * Math.sqrt(s());
+        const angle = 2 * Math.PI * s();
+        return [center[0] + r * Math.cos(angle), center[1] + r * Math.sin(angle)];
+    }, source);
+};
+
+/**
+ * Create generator for vectors of length 1 in any number of dimensions, pointing in every direction equally likely.
+ *
+ * ```ts
+ * // unitVector : Int [-> Source Float] -> Generator (List Float)
+ * // Example
+ * const directions = unitVector(2);
+ * console.log(directions.next()); // -> e.g. [ 0.6, -0.8 ]
+ * ```
+ *
+ * @param dimensions Number of dimensions, an int >= 1.
+ */
+export const unitVector = (dimensions: number, source: Source<number> = Math.random): Generator<number[]> => {
+    validate("unitVector", "dimensions", dimensions, Number.isSafeInteger(dimensions) && dimensions >= 1, "an int >= 1");
+    // normally distributed coordinates are spherically symmetric, so normalizing them gives uniform directions
+    return list(dimensions, normal(0, 1, source))
+        .filterMap(xs => {
+            const length = Math.sqrt(xs.reduce((acc, x) => acc + x * x, 0));
+            return length > 0
+                ? xs.map(x => x / length)
+                : undefined;
+        });
+};
+
+/**
+ * Create generator for points on the surface of a sphere, uniform by area.
+ *
+ * ```ts
+ * // pointOnSphere : Point3 -> Float [-> Source Float] -> Generator Point3
+ * // Example: positions on earth (in km)
+ * const positions = pointOnSphere([0, 0, 0], 6371);
+ * ```
+ */
+export const pointOnSphere = (center: Point3, radius: number, source: Source<number> = Math.random): Generator<Point3> => {
+    validate("pointOnSphere", "radius", radius, Number.isFinite(radius) && radius >= 0, "a finite number >= 0");
+    return unitVector(3, source)
+        .map(([x, y, z]): Point3 => [center[0] + radius * x, center[1] + radius * y, center[2] + radius * z]);
+};
+
+/**
+ * Create generator for points in a triangle, uniform by area.
+ *
+ * ```ts
+ * // pointInTriangle : Point -> Point -> Point [-> Source Float] -> Generator Point
+ * // Example
+ * const points = pointInTriangle([0, 0], [10, 0], [0, 10]);
+ * ```
+ */
+export const pointInTriangle = (a: Point, b: Point, c: Point, source: Source<number> = Math.random): Generator<Point> =>
+    fromSource(s => {
+        let u = s();
+        let v = s();
+        // points of the parallelogram outside the triangle are mirrored into it
+        if (u + v > 1) {
+            u = 1 - u;
+            v = 1 - v;
+        }
+        return [
+            a[0] + u * (b[0] - a[0]) + v * (c[0] - a[0]),
+            a[1] + u * (b[1] - a[1]) + v * (c[1] - a[1])
+        ];
+    }, source);
+
+/**
+ * Splits a simple polygon into triangles by ear clipping.
+ *
+ * @internal
+ */
+const triangulate = (vertices: Point[]): Array<[Point, Point, Point]> => {
+    const area = vertices.reduce((acc, p, i) => acc + cross([0, 0], p, vertices[(i + 1) % vertices.length]), 0);
+    const remaining = area > 0 ? vertices.slice() : vertices.slice().reverse();
+    const triangles: Array<[Point, Point, Point]> = [];
+
+    while (remaining.length > 3) {
+        const n = remaining.length;
+        const ear = remaining.findIndex((b, i) => {
+            const a = remaining[(i + n - 1) % n];
+            const c = remaining[(i + 1) % n];
+            return cross(a, b, c) > 0
+                && remaining.every(p =>
+                    p === a || p === b || p === c
+                    || cross(a, b, p) < 0 || cross(b, c, p) < 0 || cross(c, a, p) < 0
+                );
+        });
+        if (ear === -1) {
+            throw new InvalidParameterError("pointInPolygon: the polygon must not intersect itself.", "vertices", vertices.length);
+        }
+        triangles.push([remaining[(ear + n - 1) % n], remaining[ear], remaining[(ear + 1) % n]]);
+        remaining.splice(ear, 1);
+    }
+    return triangles.concat([remaining as [Point, Point, Point]]);
+};
+
+/**
+ * Create generator for points in a simple polygon (one that doesn't intersect itself, convex or not), uniform by area.
+ * The polygon is split into triangles once, then a triangle is picked by its area for every point.
+ *
+ * ```ts
+ * // pointInPolygon : List Point [-> Source Float] -> Generator Point
+ * // Example: spawn points in an L-shaped room
+ * const spawns = pointInPolygon([[0, 0], [10, 0], [10, 4], [4, 4], [4, 10], [0, 10]]);
+ * ```
+ *
+ * @param vertices Corners of the polygon in order, clockwise or counterclockwise.
+ */
+export const pointInPolygon = (vertices: Point[], source: Source<number> = Math.random): Generator<Point> => {
+    validate("pointInPolygon", "vertices", vertices.length, vertices.length >= 3, "at least 3 points");
+    const [first, ...rest] = triangulate(vertices)
+        .map(([a, b, c]): [number, Generator<Point>] => [Math.abs(cross(a, b, c)), pointInTriangle(a, b, c, source)])
+        .filter(([area]) => area > 0);
+    if (first === undefined) {
+        throw new InvalidParameterError("pointInPolygon: the polygon must have an area.", "vertices", vertices.length);
+    }
+    return frequency(first, rest, source);
+};
+
+/**
+ * Create generator for angles in [0, 2π), i.e. rotations in the plane.
+ *
+ * ```ts
+ * // angle : [Source Float] -> Generator Float
+ * // Example
+ * const headings = angle();
+ * ```
+ */
+export const angle = (source: Source<number> = Math.random): Generator<number> =>
+    float(0, 2 * Math.PI, source);
+
+/**
+ * Create generator for rotations in space as unit quaternions, every rotation equally likely (Shoemake's method).
+ * Use `rotationMatrix` for the rotation matrices instead.
+ *
+ * ```ts
+ * // rotation : [Source Float] -> Generator Quaternion
+ * // Example
+ * const orientations = rotation();
+ * console.log(orientations.next()); // -> e.g. [ 0.4619, -0.1913, 0.8001, 0.3314 ]
+ * ```
+ */
+export const rotation = (source: Source<number> = Math.random): Generator<Quaternion> =>
+    fromSource(s => {
+        const u = s();
+        const a = 2 * Math.PI * s();
+        const b = 2 * Math.PI * s();
+        const p = Math.sqrt(1 - u);
+        const q = Math.sqrt(u);
+        return [q * Math.cos(b), p * Math.sin(a), p * Math.cos(a), q * Math.sin(b)];
+    }, source);
+
+/**
+ * Create generator for 3x3 rotation matrices (rows first), every rotation equally likely.
+ *
+ * ```ts
+ * // rotationMatrix : [Source Float] -> Generator (List (List Float))
+ * // Example
+ * const rotate = (m: number[][], [x, y, z]: Point3): Point3 =>
+ *     [0, 1, 2].map(i => m[i][0] * x + m[i][1] * y + m[i][2] * z) as Point3;
+ * rotate(rotationMatrix().next(), [1, 0, 0]); // -> e.g. [ -0.3127, 0.9143, 0.2574 ]
+ * ```
+ */
+export const rotationMatrix = (source: Source<number> = Math.random): Generator<number[][]> =>
+    rotation(source).map(([w, x, y, z]) => [
+        [1 - 2 * (y * y + z * z), 2 * (x * y - w * z), 2 * (x * z + w * y)],
+        [2 * (x * y + w * z), 1 - 2 * (x * x + z * z), 2 * (y * z - w * x)],
+        [2 * (x * z - w * y), 2 * (y * z + w * x), 1 - 2 * (x * x + y * y)]
+    ]);
+
+/**
+ * Create generator for well-spaced points in a rectangle [0, width) x [0, height) with Bridson's Poisson-disk sampling:
+ * no two points are closer than `minDistance`, and the points fill the space densely. Good for blue noise,
+ * trees in a forest or items on a map that shouldn't clump.
+ *
+ * ```ts
+ * // poissonDisk : Float -> Float -> Float [-> PoissonDiskOptions] [-> Source Float] -> Generator (List Point)
+ * // Example
+ * const trees = poissonDisk(100, 100, 5);
+ * console.log(trees.next().length); // -> e.g. 287
+ * ```
+ */
+export const poissonDisk = (width: number, height: number, minDistance: number, options: PoissonDiskOptions = {}, source: Source<number> = Math.random): Generator<Point[]> => {
+    validate("poissonDisk", "width", width, Number.isFinite(width) && width > 0, "a finite number > 0");
+    validate("poissonDisk", "height", height, Number.isFinite(height) && height > 0, "a finite number > 0");
+    validate("poissonDisk", "minDistance", minDistance, Number.isFinite(minDistance) && minDistance > 0, "a finite number > 0");
+    const maxAttempts = options.maxAttempts ?? 30;
+    // a cell this size holds at most one point
+    const cellSize = minDistance / Math.SQRT2;
+    const columns = Math.ceil(width / cellSize);
+    const rows = Math.ceil(height / cellSize);
+
+    return fromSource(s => {
+        const grid: Array<Point | undefined> = new Array(columns * rows);
+        const points: Point[] = [];
+        const active: Point[] = [];
+        const add = (p: Point): void => {
+            grid[Math.floor(p[1] / cellSize) * columns + Math.floor(p[0] / cellSize)] = p;
+            points.push(p);
+            active.push(p);
+        };
+        const fits = ([x, y]: Point): boolean => {
+            if (x < 0 || x >= width || y < 0 || y >= height) {
+                return false;
+            }
+            const column = Math.floor(x / cellSize);
+            const row = Math.floor(y / cellSize);
+            for (let r = Math.max(0, row - 2); r <= Math.min(rows - 1, row + 2); r += 1) {
+                for (let c = Math.max(0, column - 2); c <= Math.min(columns - 1, column + 2); c += 1) {
+                    const q = grid[r * columns + c];
+                    if (q && (q[0] - x) ** 2 + (q[1] - y) ** 2 < minDistance * minDistance) {
+                        return false;
+                    }
+                }
+            }
+            return true;
+        };
+
+        add([width * s(), height * s()]);
+        while (active.length > 0) {
+            const i = Math.floor(s() * active.length);
+            const [x, y] = active[i];
+            let found = false;
+            for (let attempt = 0; attempt < maxAttempts && !found; attempt += 1) {
+                // candidates in the ring between minDistance and 2 * minDistance around the point
+                const r = minDistance * Math.sqrt(1 + 3 * s());
+                const a = 2 * Math.PI * s();
+                const candidate: Point = [x + r * Math.cos(a), y + r * Math.sin(a)];
+                if (fits(candidate)) {
+                    add(candidate);
+                    found = true;
+                }
+            }
+            if (!found) {
+                active[i] = active[active.length - 1];
+                active.pop();
+            }
+        }
+        return points;
+    }, source);
+};
@@ -0,0 +1,66 @@
+import { Readable } from "stream";
+import { Generator } from "./elmish-random";
+
+/**
+ * Create an async iterable of generated values, e.g. to feed them into code that consumes async iterables.
+ * Without a count it never ends.
+ *
+ * ```ts
+ * // toAsyncIterable : Generator a [-> Int] -> AsyncIterable a
+ * // Example
+ * for await (const user of toAsyncIterable(users, 1000)) {
+ *     await db.insert(user);
+ * }
+ * ```
+ *
+ * @param generator Generator for the values.
+ * @param count Number of values. Defaults to infinitely many.
+ */
+export const toAsyncIterable = <A>(generator: Generator<A>, count: number = Infinity): AsyncIterable<A> => ({
+    [Symbol.asyncIterator]: (): AsyncIterator<A> => {
+        let i = 0;
+        return {
+            next: () => {
+                i += 1;
+                return Promise.resolve(
+                    i <= count
+                        ? { done: false, value: generator.next() }
+                        : { done: true, value: undefined } as IteratorResult<A>
+                );
+            }
+        };
+    }
+});
+
+/**
+ * Create a Node.js readable stream (in object mode) of generated values, e.g. to pipe them into a file or database.
+ * Values are only generated when the stream is read, so backpressure is respected.
+ * Without a count the stream never ends.
+ * **NOTE:** A `null` value ends a Node.js stream, so map `null` to something else first.
+ *
+ * ```ts
+ * // toReadable : Generator a [-> Int] -> Readable
+ * // Example: 10000 users as newline-delimited JSON
+ * toReadable(users.map(user => JSON.stringify(user) + "\n"), 10000)
+ *     .pipe(fs.createWriteStream("users.ndjson"));
+ * ```
+ *
+ * @param generator Generator for the values.
+ * @param count Number of values. Defaults to infinitely many.
+ */
+export const toReadable = <A>(generator: Generator<A>, count: number = Infinity): Readable => {
+    let i = 0;
+    return new Readable({
+        objectMode: true,
+        read() {
+            let open = true;
+            while (open && i < count) {
+                i += 1;
+                open = this.push(generator.next());
+            }
+            if (i >= count) {
+                this.push(null);
+            }
+        }
+    });
+};
@@ -0,0 +1,526 @@
+import { Bounds, Generator, Source, constant, int, listOf, shrink, tuple, uniform, withShrinker } from "./elmish-random";
+
+/**
+ * A set of characters: either a string containing all the characters,
+ * or a list of inclusive code point ranges like `[[0x41, 0x5A], [0x61, 0x7A]]`.
+ */
+export type Charset = string | Array<[number, number]>;
+
+/**
+ * @internal
+ */
+type Ranges = Array<[number, number]>;
+
+export const digits: Charset = "0123456789";
+
+export const lowercase: Charset = "abcdefghijklmnopqrstuvwxyz";
+
+export const uppercase: Charset = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+export const alphanumeric: Charset = lowercase + uppercase + digits;
+
+export const hex: Charset = "0123456789abcdef";
+
+/**
+ * The characters of URL-safe base64 (RFC 4648), without the padding `=`.
+ */
+export const base64url: Charset = uppercase + lowercase + digits + "-_";
+
+/**
+ * Space (0x20) to tilde (0x7E).
+ */
+export const printableAscii: Charset = [[0x20, 0x7E]];
+
+/**
+ * Every Unicode code point, except the surrogates (0xD800 to 0xDFFF) which aren't characters on their own.
+ */
+export const unicode: Charset = [[0x0, 0xD7FF], [0xE000, 0x10FFFF]];
+
+/**
+ * Turns a charset into code point ranges. Characters that occur more than once in a string count once,
+ * so they aren't more likely than the others.
+ *
+ * @internal
+ */
+const toRanges = (charset: Charset): Ranges =>
+    typeof charset === "string"
+        ? Array.from(new Set(Array.from(charset))).map((c): [number, number] => [c.codePointAt(0) as number, c.codePointAt(0) as number])
+        : charset;
+
+/**
+ * Create generator for single characters of a charset. Every character is equally likely.
+ *
+ * ```ts
+ * // char : Charset [-> Source Float] -> Generator String
+ * // Example
+ * const vowels = char("aeiou");
+ * const emoji = char([[0x1F600, 0x1F64F]]);
+ * console.log(vowels.next()); // -> e.g. "e"
+ * console.log(emoji.next()); // -> e.g. "😎"
+ * ```
+ *
+ * Characters shrink towards the first character of the charset.
+ */
+export const char = (charset: Charset, source: Source<number> = Math.random): Generator<string> => {
+    const ranges = toRanges(charset);
+    const total = ranges.reduce((acc, [from, to]) => acc + to - from + 1, 0);
+    if (ranges.length === 0 || ranges.some(([from, to]) => from > to)) {
+        throw new Error("char: the charset must contain at least one character and ranges must be ordered [from, to].");
+    }
+
+    const indexes = int(0, total - 1, source);
+    const toChar = (index: number): string => {
+        for (const [from, to] of ranges) {
+            if (index <= to - from) {
+                return String.fromCodePoint(from + index);
+            }
+            index -= to - from + 1;
+        }
+        return "";
+    };
+    const toIndex = (c: string): number => {
+        const codePoint = c.codePointAt(0) as number;
+        let offset = 0;
+        for (const [from, to] of ranges) {
+            if (codePoint >= from && codePoint <= to) {
+                return offset + codePoint - from;
+            }
+            offset += to - from + 1;
+        }
+        return 0;
+    };
+
+    return withShrinker(
+        indexes.map(toChar),
+        c => shrink(indexes, toIndex(c)).map(toChar)
+    );
+};
+
+/**
+ * Create generator for strings of characters of a charset, with a random length within bounds.
+ * The length counts characters (code points), not UTF-16 code units.
+ *
+ * ```ts
+ * // string : Bounds -> Charset [-> Source Float] -> Generator String
+ * // Example
+ * const slugs = string({ min: 4, max: 12 }, lowercase + digits + "-");
+ * const ids = string({ min: 16, max: 16 }, hex, cryptoSource());
+ * console.log(slugs.next()); // -> e.g. "k3-xq9a"
+ * console.log(ids.next()); // -> e.g. "3fa85f6457174562"
+ * ```
+ *
+ * Strings shrink towards shorter strings of simpler characters.
+ */
+export const string = (length: Bounds, charset: Charset, source: Source<number> = Math.random): Generator<string> => {
+    const chars = listOf(length, char(charset, source), source);
+    return withShrinker(
+        chars.map(cs => cs.join("")),
+        s => shrink(chars, Array.from(s)).map(cs => cs.join(""))
+    );
+};
+
+/**
+ * Thrown by `fromRegex` for patterns that use features it can't generate strings for.
+ */
+export class UnsupportedPatternError extends Error {
+    constructor(message: string, readonly pattern: string) {
+        super(message);
+        this.name = "UnsupportedPatternError";
+    }
+}
+
+/**
+ * How many repetitions `*`, `+` and `{n,}` may add at most.
+ *
+ * @internal
+ */
+const unboundedRepetitions = 8;
+
+/**
+ * Parsed regular expression.
+ *
+ * @internal
+ */
+type Pattern =
+    | { kind: "literal", value: string }
+    | { kind: "charset", ranges: Ranges }
+    | { kind: "sequence", patterns: Pattern[] }
+    | { kind: "alternation", patterns: Pattern[] }
+    | { kind: "repetition", pattern: Pattern, min: number, max: number };
+
+/**
+ * Create generator for strings that match a regular expression.
+ *
+ * ```ts
+ * // fromRegex : RegExp [-> Source Float] -> Generator String
+ * // Example
+ * const plates = fromRegex(/^[A-Z]{1,3}-[A-Z]{1,2} [1-9]\d{0,3}$/);
+ * const uuids = fromRegex(/[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}/);
+ * console.log(plates.next()); // -> e.g. "HH-KN 4711"
+ * ```
+ *
+ * Supported are literal characters and escapes (`\n`, `\t`, `\xFF`, `\uFFFF`, `\.` etc.),
+ * character classes (`[a-z_]`, `[^0-9]`), `.`, `\d`, `\w`, `\s` and their negations,
+ * groups (`(...)`, `(?:...)`, `(?<name>...)`), alternation (`|`), the quantifiers `?`, `*`, `+`, `{n}`, `{n,}`, `{n,m}` (also lazy),
+ * and `^`/`$` at the start/end of the pattern.
+ * Negated classes and `.` pick from printable ASCII - negated classes that exclude all of it, like `[^\x00-\x7F]`, from all of Unicode. `*`, `+` and `{n,}` repeat at most 8 more times than their minimum.
+ * Flags are ignored.
+ * Anything else (backreferences, lookarounds, word boundaries, ...) throws an `UnsupportedPatternError`.
+ */
+export const fromRegex = (pattern: RegExp | string, source: Source<number> = Math.random): Generator<string> =>
+    compile(parse(typeof pattern === "string" ? pattern : pattern.source), source);
+
+/**
+ * The shortest and the longest length (in code points) of the strings `fromRegex` generates for a pattern.
+ *
+ * ```ts
+ * // regexLengths : RegExp -> Bounds
+ * // Example
+ * regexLengths(/^[A-Z]{2}-\d{3,4}$/); // -> { min: 6, max: 7 }
+ * ```
+ *
+ * Throws an `UnsupportedPatternError` for the same patterns `fromRegex` throws it for.
+ */
+export const regexLengths = (pattern: RegExp | string): Required<Bounds> => {
+    const [min, max] = lengths(parse(typeof pattern === "string" ? pattern : pattern.source));
+    return { min, max };
+};
+
+/**
+ * @internal
+ */
+const lengths = (pattern: Pattern): [number, number] => {
+    switch (pattern.kind) {
+        case "literal":
+            return [Array.from(pattern.value).length, Array.from(pattern.value).length];
+        case "charset":
+            return [1, 1];
+        case "sequence":
+            return pattern.patterns
+                .map(lengths)
+                .reduce(([min, max], [a, b]): [number, number] => [min + a, max + b], [0, 0]);
+        case "alternation": {
+            const all = pattern.patterns.map(lengths);
+            return [Math.min(...all.map(([a]) => a)), Math.max(...all.map(([, b]) => b))];
+        }
+        case "repetition": {
+            const [a, b] = lengths(pattern.pattern);
+            return [pattern.min * a, pattern.max * b];
+        }
+    }
+};
+
+/**
+ * @internal
+ */
+const compile = (pattern: Pattern, source: Source<number>): Generator<string> => {
+    switch (pattern.kind) {
+        case "literal":
+            return constant(pattern.value);
+        case "charset":
+            return char(pattern.ranges, source);
+        case "sequence":
+            return tuple(...pattern.patterns.map(p => compile(p, source)))
+                .map(parts => parts.join(""));
+        case "alternation": {
+            const [first, ...rest] = pattern.patterns.map(p => compile(p, source));
+            return uniform(first, rest, source)
+                .then(generator => generator);
+        }
+        case "repetition":
+            return listOf({ min: pattern.min, max: pattern.max }, compile(pattern.pattern, source), source)
+                .map(parts => parts.join(""));
+    }
+};
+
+/**
+ * Recursive descent parser for the supported subset of regular expressions.
+ *
+ * @internal
+ */
+const parse = (source: string): Pattern => {
+    let i = 0;
+    const fail = (reason: string): never => {
+        throw new UnsupportedPatternError(`fromRegex: ${reason} at position ${i} of /${source}/.`, source);
+    };
+
+    const start = source[0] === "^" ? 1 : 0;
+    // a $ is an anchor unless an odd number of backslashes escapes it
+    const backslashes = source.length - 1 - source.slice(0, -1).search(/\\*$/);
+    const end = source.length > start && source[source.length - 1] === "$" && backslashes % 2 === 0
+        ? source.length - 1
+        : source.length;
+    i = start;
+
+    const alternation = (): Pattern => {
+        const patterns = [sequence()];
+        while (i < end && source[i] === "|") {
+            i += 1;
+            patterns.push(sequence());
+        }
+        return patterns.length === 1
+            ? patterns[0]
+            : { kind: "alternation", patterns };
+    };
+
+    const sequence = (): Pattern => {
+        const patterns: Pattern[] = [];
+        while (i < end && source[i] !== "|" && source[i] !== ")") {
+            patterns.push(quantified(atom()));
+        }
+        return patterns.length === 1
+            ? patterns[0]
+            : { kind: "sequence", patterns };
+    };
+
+    const quantified = (pattern: Pattern): Pattern => {
+        const bounds = quantifier();
+        if (bounds === undefined) {
+            return pattern;
+        }
+        // lazy quantifiers generate the same strings
+        if (source[i] === "?") {
+            i += 1;
+        }
+        return { kind: "repetition", pattern, min: bounds[0], max: bounds[1] };
+    };
+
+    const quantifier = (): [number, number] | undefined => {
+        const c = source[i];
+        if (i >= end) {
+            return undefined;
+        }
+        else if (c === "?" || c === "*" || c === "+") {
+            i += 1;
+            return c === "?" ? [0, 1] : c === "*" ? [0, unboundedRepetitions] : [1, 1 + unboundedRepetitions];
+        }
+        else if (c === "{") {
+            const match = /^\{(\d+)(,(\d*))?\}/.exec(source.slice(i, end));
+            if (match === null) {
+                return fail("invalid quantifier");
+            }
+            i += match[0].length;
+            const min = Number(match[1]);
+            const max = match[2] === undefined ? min : match[3] === "" ? min + unboundedRepetitions : Number(match[3]);
+            return max < min
+                ? fail("quantifier range out of order")
+                : [min, max];
+        }
+        else {
+            return undefined;
+        }
+    };
+
+    const atom = (): Pattern => {
+        const c = source[i];
+        if (c === "(") {
+            i += 1;
+            if (source.startsWith("?:", i)) {
+                i += 2;
+            }
+            else if (source.startsWith("?<", i) && source[i + 2] !== "=" && source[i + 2] !== "!") {
+                const close = source.indexOf(">", i);
+                i = close < 0 ? fail("unterminated group name") : close + 1;
+            }
+            else if (source[i] === "?") {
+                return fail("lookarounds are not supported");
+            }
+            const pattern = alternation();
+            if (source[i] !== ")") {
+                return fail("missing )");
+            }
+            i += 1;
+            return pattern;
+        }
+        else if (c === "[") {
+            return { kind: "charset", ranges: charClass() };
+        }
+        else if (c === ".") {
+            i += 1;
+            return { kind: "charset", ranges: toRanges(printableAscii) };
+        }
+        else if (c === "\\") {
+            i += 1;
+            const shorthand = classEscape();
+            return shorthand === undefined
+                ? { kind: "literal", value: charEscape() }
+                : { kind: "charset", ranges: shorthand };
+        }
+        else if (c === ")" || c === "?" || c === "*" || c === "+" || c === "{" || c === "^" || c === "$") {
+            return fail(`unexpected ${c}`);
+        }
+        else {
+            const codePoint = source.codePointAt(i) as number;
+            const value = String.fromCodePoint(codePoint);
+            i += value.length;
+            return { kind: "literal", value };
+        }
+    };
+
+    // \d, \w, \s and their negations - or undefined for other escapes
+    const classEscape = (): Ranges | undefined => {
+        const shorthands: { [key: string]: Ranges } = {
+            d: toRanges(digits),
+            w: toRanges(alphanumeric + "_"),
+            s: toRanges(" \t\n\r\v\f")
+        };
+        const c = source[i];
+        if (i >= source.length) {
+            return undefined;
+        }
+        else if (shorthands[c] !== undefined) {
+            i += 1;
+            return shorthands[c];
+        }
+        else if (shorthands[c.toLowerCase()] !== undefined) {
+            i += 1;
+            return complement(shorthands[c.toLowerCase()]);
+        }
+        else {
+            return undefined;
+        }
+    };
+
+    const charEscape = (): string => {
+        const c = source[i];
+        const controls: { [key: string]: string } = { n: "\n", t: "\t", r: "\r", v: "\v", f: "\f", "0": "\0" };
+        if (c === undefined) {
+            return fail("trailing \\");
+        }
+        else if (controls[c] !== undefined) {
+            i += 1;
+            return controls[c];
+        }
+        else if (c === "x" || c === "u") {
+            const match = (c === "x" ? /^x([0-9a-fA-F]{2})/ : /^u([0-9a-fA-F]{4})/).exec(source.slice(i));
+            if (match === null) {
+                return fail(`invalid \\${c} escape`);
+            }
+            i += match[0].length;
+            return String.fromCharCode(parseInt(match[1], 16));
+        }
+        else if (/[1-9bBkpPc]/.test(c)) {
+            return fail(`\\${c} is not supported`);
+        }
+        else {
+            i += 1;
+            return c;
+        }
+    };
+
+    const charClass = (): Ranges => {
+        i += 1;
+        const negated = source[i] === "^";
+        if (negated) {
+            i += 1;
+        }
+
+        const ranges: Ranges = [];
+        while (source[i] !== "]") {
+            if (i >= source.length) {
+                return fail("missing ]");
+            }
+
+            const from = classAtom();
+            if (typeof from !== "number") {
+                ranges.push(...from);
+            }
+            else if (source[i] === "-" && source[i + 1] !== "]" && i + 1 < source.length) {
+                i += 1;
+                const to = classAtom();
+                if (typeof to !== "number" || to < from) {
+                    return fail("invalid range in character class");
+                }
+                ranges.push([from, to as number]);
+            }
+            else {
+                ranges.push([from, from]);
+            }
+        }
+        i += 1;
+
+        const result = negated
+            ? complement(ranges)
+            : union(ranges);
+        return result.length > 0
+            ? result
+            : fail("character class matches no character");
+    };
+
+    // a single code point, or the ranges of a shorthand like \d
+    const classAtom = (): number | Ranges => {
+        if (source[i] === "\\") {
+            i += 1;
+            if (source[i] === "b") {
+                i += 1;
+                return 0x08;
+            }
+            const shorthand = classEscape();
+            return shorthand === undefined
+                ? charEscape().codePointAt(0) as number
+                : shorthand;
+        }
+        else {
+            const codePoint = source.codePointAt(i) as number;
+            i += String.fromCodePoint(codePoint).length;
+            return codePoint;
+        }
+    };
+
+    const pattern = alternation();
+    return i < end
+        ? fail("unexpected )")
+        : pattern;
+};
+
+/**
+ * Sorts ranges and merges the ones that overlap or touch, so no character is in more than one range.
+ *
+ * @internal
+ */
+const union = (ranges: Ranges): Ranges =>
+    [...ranges]
+        .sort(([a], [b]) => a - b)
+        .reduce((result: Ranges, [from, to]) => {
+            const last = result[result.length - 1];
+            if (last !== undefined && from <= last[1] + 1) {
+                last[1] = Math.max(last[1], to);
+            }
+            else {
+                result.push([from, to]);
+            }
+            return result;
+        }, []);
+
+/**
+ * The characters of the universe that are not in the given ranges.
+ *
+ * @internal
+ */
+const subtract = (universe: Ranges, ranges: Ranges): Ranges =>
+    universe.reduce((result: Ranges, [min, max]) => {
+        let from = min;
+        union(ranges).forEach(([start, end]) => {
+            if (start > from && from <= max) {
+                result.push([from, Math.min(start - 1, max)]);
+            }
+            from = Math.max(from, end + 1);
+        });
+        if (from <= max) {
+            result.push([from, max]);
+        }
+        return result;
+    }, []);
+
+/**
+ * The printable ASCII characters that are not in the given ranges -
+ * or all Unicode characters that are not in them, if they contain every printable ASCII character.
+ *
+ * @internal
+ */
+const complement = (ranges: Ranges): Ranges => {
+    const ascii = subtract(toRanges(printableAscii), ranges);
+    return ascii.length > 0
+        ? ascii
+        : subtract(toRanges(unicode), ranges);
+};
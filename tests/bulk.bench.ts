@@ -0,0 +1,22 @@
+import * as Random from "../src/elmish-random";
+
+const time = (f: () => void): number => {
+    const start = process.hrtime();
+    f();
+    const [seconds, nanoseconds] = process.hrtime(start);
+    return seconds * 1e9 + nanoseconds;
+};
+
+test("fillFloat64() is at least ten times as fast as list() with a seeded source", () => {
+    const n = 1000000;
+    const buffer = new Float64Array(n);
+    let slow = Infinity;
+    let fast = Infinity;
+    // the best of interleaved runs, so a hiccup of the machine doesn't decide the ratio
+    for (let i = 0; i < 10; i += 1) {
+        slow = Math.min(slow, time(() => Random.list(n, Random.float(0, 1, Random.pcg32(i))).next()));
+        fast = Math.min(fast, time(() => Random.fillFloat64(Random.float(0, 1, Random.pcg32(i)), buffer)));
+    }
+
+    expect(10 * fast).toBeLessThan(slow);
+});
@@ -0,0 +1,99 @@
+import * as Random from "../src/elmish-random";
+import { check, forAll, property, PropertyFailedError } from "../src/check";
+
+test("shrink() moves ints towards zero", () => {
+    expect(Random.shrink(Random.int(0, 100), 10)).toStrictEqual([0, 5, 8, 9]);
+    expect(Random.shrink(Random.int(-100, -10), -20)).toStrictEqual([-10, -15, -18, -19]);
+    expect(Random.shrink(Random.int(0, 100), 0)).toStrictEqual([]);
+});
+
+test("shrink() moves floats towards zero within bounds", () => {
+    const candidates = Random.shrink(Random.float(2, 10), 7.5);
+
+    expect(candidates[0]).toBe(2);
+    expect(candidates.every(x => x >= 2 && x < 7.5)).toBe(true);
+});
+
+test("shrink() picks earlier values of uniform", () => {
+    expect(Random.shrink(Random.uniform("a", ["b", "c"]), "c")).toStrictEqual(["a", "b"]);
+});
+
+test("shrink() shrinks one side of a pair at a time", () => {
+    const generator = Random.pair(Random.int(0, 10), Random.boolean());
+
+    expect(Random.shrink(generator, [2, true]))
+        .toStrictEqual([[0, true], [1, true], [2, false]]);
+});
+
+test("shrink() returns nothing for mapped generators", () => {
+    expect(Random.shrink(Random.int(0, 10).map(x => x * 2), 8)).toStrictEqual([]);
+});
+
+test("check() passes if the property holds", () => {
+    const result = check(Random.int(0, 100), x => x >= 0 && x <= 100, { runs: 50, seed: 1 });
+
+    expect(result).toStrictEqual({ passed: true, runs: 50, seed: 1 });
+});
+
+test("check() shrinks a failing int to the minimal counterexample", () => {
+    const result = check(Random.int(0, 1000), x => x < 50, { seed: 42 });
+
+    expect(result.passed).toBe(false);
+    if (!result.passed) {
+        expect(result.counterexample).toBe(50);
+        expect(result.original).toBeGreaterThanOrEqual(50);
+    }
+});
+
+test("check() shrinks lists element by element", () => {
+    const result = check(Random.list(5, Random.int(0, 100)), xs => xs.every(x => x < 90), { seed: 7 });
+
+    expect(result.passed).toBe(false);
+    if (!result.passed) {
+        expect([...result.counterexample].sort()).toStrictEqual([0, 0, 0, 0, 90]);
+    }
+});
+
+test("check() treats thrown errors as failures and keeps the error", () => {
+    const result = check(Random.int(0, 100), x => {
+        if (x > 10) {
+            throw new Error("too big");
+        }
+    }, { seed: 3 });
+
+    expect(result.passed).toBe(false);
+    if (!result.passed) {
+        expect(result.counterexample).toBe(11);
+        expect(result.error).toStrictEqual(new Error("too big"));
+    }
+});
+
+test("check() replays a failure from its seed", () => {
+    const generator = Random.pair(Random.int(0, 100), Random.int(0, 100));
+    const predicate = ([a, b]: [number, number]) => a + b < 150;
+
+    const first = check(generator, predicate);
+    const replay = check(generator, predicate, { seed: first.seed });
+
+    expect(replay).toStrictEqual(first);
+});
+
+test("forAll() throws a PropertyFailedError with a report", () => {
+    expect(() => forAll(Random.int(0, 100), x => x < 10, { seed: 9 }))
+        .toThrow(PropertyFailedError);
+    expect(() => forAll(Random.int(0, 100), x => x < 10, { seed: 9 }))
+        .toThrow(/Counterexample: 10\n[\s\S]*seed: 9/);
+});
+
+test(...property("property() creates a test", Random.list(10, Random.int(0, 100)), xs => {
+    expect([...xs].reverse().reverse()).toStrictEqual(xs);
+}));
+
+test("check() starts with size 0 and grows to maxSize", () => {
+    const sizes: number[] = [];
+    check(Random.sized(n => Random.constant(n)), n => {
+        sizes.push(n);
+    }, { runs: 5, maxSize: 40 });
+
+    expect(sizes).toStrictEqual([0, 10, 20, 30, 40]);
+});
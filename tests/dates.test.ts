@@ -0,0 +1,83 @@
+import * as Random from "../src/elmish-random";
+import { businessDateTime, date, dateTimeISO, duration, formatDuration, formatISO, time } from "../src/dates";
+import { InvalidParameterError } from "../src/distributions";
+
+const year2024 = { from: new Date("2024-01-01T00:00:00Z"), to: new Date("2024-12-31T23:59:59.999Z") };
+
+test("date() generates dates within the range", () => {
+    const dates = date(year2024).take(500);
+
+    expect(dates.every(d => d >= year2024.from && d <= year2024.to)).toBe(true);
+    expect(new Set(dates.map(d => d.getUTCMonth())).size).toBe(12);
+    expect(() => date({ from: year2024.to, to: year2024.from })).toThrow(Random.InvalidRangeError);
+});
+
+test("date() shrinks towards from", () => {
+    const d = new Date("2024-06-01T00:00:00Z");
+
+    expect(Random.shrink(date(year2024), d)[0]).toStrictEqual(year2024.from);
+});
+
+test("date() is deterministic for a seeded source", () => {
+    expect(date(year2024, Random.pcg32(7)).take(5)).toStrictEqual(date(year2024, Random.pcg32(7)).take(5));
+});
+
+test("formatISO() writes the offset of the time zone at the instant", () => {
+    expect(formatISO(new Date("2024-03-31T00:30:00Z"), "Europe/Berlin")).toBe("2024-03-31T01:30:00.000+01:00");
+    expect(formatISO(new Date("2024-03-31T01:30:00Z"), "Europe/Berlin")).toBe("2024-03-31T03:30:00.000+02:00");
+    expect(formatISO(new Date("2024-07-01T12:00:00.250Z"), "America/New_York")).toBe("2024-07-01T08:00:00.250-04:00");
+    expect(formatISO(new Date("2024-07-01T12:00:00Z"))).toBe("2024-07-01T12:00:00.000Z");
+    expect(formatISO(new Date("+012345-06-01T12:00:00Z"), "Asia/Tokyo")).toBe("+012345-06-01T21:00:00.000+09:00");
+    expect(formatISO(new Date("-000042-06-01T12:00:00Z"), "Etc/GMT-2")).toBe("-000042-06-01T14:00:00.000+02:00");
+    expect(formatISO(new Date("0042-06-01T12:00:00Z"), "Etc/GMT+5")).toBe("0042-06-01T07:00:00.000-05:00");
+});
+
+test("dateTimeISO() generates ISO 8601 date-times that parse to instants within the range", () => {
+    const utc = dateTimeISO(year2024).take(200);
+    const berlin = dateTimeISO(year2024, { timeZone: "Europe/Berlin" }).take(200);
+
+    expect(utc.every(s => /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/.test(s))).toBe(true);
+    expect(berlin.every(s => /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}\+0[12]:00$/.test(s))).toBe(true);
+    expect(berlin.every(s => new Date(s) >= year2024.from && new Date(s) <= year2024.to)).toBe(true);
+});
+
+test("time() generates times of day within the bounds", () => {
+    const times = time({ min: "11:30", max: "14:00" }).take(500);
+
+    expect(times.every(t => /^\d{2}:\d{2}:\d{2}$/.test(t) && t >= "11:30:00" && t <= "14:00:00")).toBe(true);
+    expect(time({ min: "23:59:59" }).next()).toBe("23:59:59");
+    expect(() => time({ min: "12:00", max: "11:00" })).toThrow(Random.InvalidRangeError);
+    expect(() => time({ min: "25:00" })).toThrow(Random.InvalidRangeError);
+});
+
+test("duration() generates milliseconds and formatDuration() writes them as ISO 8601", () => {
+    const durations = duration(60000, 7200000).take(500);
+
+    expect(durations.every(ms => Number.isInteger(ms) && ms >= 60000 && ms <= 7200000)).toBe(true);
+    expect(formatDuration(93784005)).toBe("P1DT2H3M4.005S");
+    expect(formatDuration(3600000)).toBe("PT1H");
+    expect(formatDuration(86400000)).toBe("P1D");
+    expect(formatDuration(59999.6)).toBe("PT1M");
+    expect(formatDuration(1999.5)).toBe("PT2S");
+    expect(formatDuration(0)).toBe("PT0S");
+});
+
+test("formatDuration() rejects durations that aren't finite numbers >= 0", () => {
+    [-1, -0.4, -86400000, NaN, Infinity].forEach(ms => expect(() => formatDuration(ms)).toThrow(InvalidParameterError));
+});
+
+test("businessDateTime() only generates instants during business hours", () => {
+    const utc = businessDateTime(year2024).take(300);
+    const berlin = businessDateTime(year2024, { timeZone: "Europe/Berlin", weekdays: [6], startHour: 10, endHour: 12 }).take(100);
+    const hourInBerlin = (d: Date) => Number(formatISO(d, "Europe/Berlin").slice(11, 13));
+
+    expect(utc.every(d => d.getUTCDay() >= 1 && d.getUTCDay() <= 5 && d.getUTCHours() >= 9 && d.getUTCHours() < 17)).toBe(true);
+    expect(berlin.every(d => hourInBerlin(d) >= 10 && hourInBerlin(d) < 12)).toBe(true);
+    expect(new Set(berlin.map(d => new Date(formatISO(d, "Europe/Berlin").slice(0, 10)).getUTCDay()))).toStrictEqual(new Set([6]));
+});
+
+test("businessDateTime() gives up on ranges without business hours", () => {
+    const weekend = { from: new Date("2024-06-01T00:00:00Z"), to: new Date("2024-06-02T23:59:59Z") };
+
+    expect(() => businessDateTime(weekend).next()).toThrow(Random.RetriesExhaustedError);
+});
@@ -0,0 +1,62 @@
+import * as Random from "../src/elmish-random";
+import { InvalidParameterError } from "../src/distributions";
+import { birthdaySpacings, chiSquare, diagnose, formatReport, goodnessOfFit, kolmogorovSmirnov, runs, serialCorrelation } from "../src/diagnostics";
+
+const uniform = Random.sampleN(10240, Random.float(0, 1, Random.pcg32(1)));
+
+test.each([
+    ["pcg32", Random.pcg32(7)],
+    ["splitmix32", Random.splitmix32(7)],
+    ["xoshiro128ss", Random.xoshiro128ss(7)],
+    ["simpleSeeded", Random.simpleSeeded(7)]
+])("diagnose() passes %s", (_, source) => {
+    const report = diagnose(source);
+
+    expect(report.results.map(r => r.name)).toStrictEqual(["chi-square", "Kolmogorov-Smirnov", "serial correlation", "runs", "birthday spacings"]);
+    expect(report.passed).toBe(true);
+});
+
+test("diagnose() passes generators with their range", () => {
+    expect(diagnose(Random.float(-5, 5, Random.pcg32(3)), { min: -5, max: 5 }).passed).toBe(true);
+    expect(diagnose(Random.float(-5, 5, Random.pcg32(3))).passed).toBe(false);
+    expect(() => diagnose(Math.random, { samples: 100 })).toThrow(InvalidParameterError);
+});
+
+test("the tests catch broken sources", () => {
+    const skewed = uniform.map(x => x * x);
+    const sequential = uniform.map((_, i) => (i * 0.6180339887) % 1);
+    const sticky = uniform.map((_, i) => uniform[i - i % 4]);
+    const coarse = uniform.map(x => Math.floor(x * 4096) / 4096);
+
+    expect(chiSquare(skewed).passed).toBe(false);
+    expect(kolmogorovSmirnov(skewed).passed).toBe(false);
+    expect(serialCorrelation(sequential).passed).toBe(false);
+    expect(runs(sticky).passed).toBe(false);
+    expect(birthdaySpacings(coarse).passed).toBe(false);
+    expect(diagnose(() => 0.5).passed).toBe(false);
+});
+
+test("the tests report p-values in [0, 1]", () => {
+    const results = [chiSquare(uniform), kolmogorovSmirnov(uniform), serialCorrelation(uniform, 3), runs(uniform), birthdaySpacings(uniform)];
+
+    expect(results.every(r => r.pValue >= 0 && r.pValue <= 1 && r.passed === r.pValue >= 0.01)).toBe(true);
+    expect(chiSquare(uniform, 100, 1).passed).toBe(false);
+});
+
+test("goodnessOfFit() checks discrete distributions", () => {
+    const weights: Array<[string, number]> = [["a", 1], ["b", 2], ["c", 7]];
+    const values = Random.weighted(weights[0], weights.slice(1), Random.pcg32(5)).take(5000);
+    const dice = Random.int(1, 6, Random.pcg32(5)).take(6000);
+
+    expect(goodnessOfFit(values, weights).passed).toBe(true);
+    expect(goodnessOfFit(values, [["a", 1], ["b", 1], ["c", 1]]).passed).toBe(false);
+    expect(goodnessOfFit(values, [["a", 1], ["b", 2]]).passed).toBe(false);
+    expect(goodnessOfFit(dice, [1, 2, 3, 4, 5, 6].map((face): [number, number] => [face, 1])).passed).toBe(true);
+});
+
+test("formatReport() writes a line per test", () => {
+    const lines = formatReport(diagnose(Random.pcg32(1))).split("\n");
+
+    expect(lines.length).toBe(5);
+    expect(lines[0]).toMatch(/^PASS {2}chi-square {10}statistic [\d.]+ +p [01]\.\d{4}$/);
+});
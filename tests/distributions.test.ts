@@ -0,0 +1,112 @@
+import * as Random from "../src/elmish-random";
+import * as Distributions from "../src/distributions";
+
+const n = 20000;
+
+const moments = (generator: Random.Generator<number>): { mean: number, variance: number } => {
+    const values = Random.list(n, generator).next();
+    const mean = values.reduce((acc, x) => acc + x, 0) / n;
+    const variance = values.reduce((acc, x) => acc + (x - mean) ** 2, 0) / (n - 1);
+    return { mean, variance };
+};
+
+// Checks that the sample mean is within 4 standard errors of the expected mean
+// and the sample variance within 10% of the expected variance.
+const expectMoments = (generator: Random.Generator<number>, mean: number, variance: number): void => {
+    const sample = moments(generator);
+    expect(Math.abs(sample.mean - mean)).toBeLessThan(4 * Math.sqrt(variance / n));
+    expect(sample.variance / variance).toBeGreaterThan(0.9);
+    expect(sample.variance / variance).toBeLessThan(1.1);
+};
+
+test("bernoulli() generates true with probability p", () => {
+    expectMoments(Distributions.bernoulli(0.3, Random.pcg32(1)).map(b => b ? 1 : 0), 0.3, 0.3 * 0.7);
+});
+
+test("normal() has the given mean and standard deviation", () => {
+    expectMoments(Distributions.normal(170, 10, Random.pcg32(2)), 170, 100);
+});
+
+test("logNormal() has the mean and variance of its parameters", () => {
+    const [mu, sigma] = [1, 0.5];
+    expectMoments(
+        Distributions.logNormal(mu, sigma, Random.pcg32(3)),
+        Math.exp(mu + sigma ** 2 / 2),
+        (Math.exp(sigma ** 2) - 1) * Math.exp(2 * mu + sigma ** 2)
+    );
+});
+
+test("exponential() has mean 1/rate and variance 1/rate²", () => {
+    expectMoments(Distributions.exponential(4, Random.pcg32(4)), 1 / 4, 1 / 16);
+});
+
+test("poisson() has mean and variance lambda", () => {
+    expectMoments(Distributions.poisson(3.5, Random.pcg32(5)), 3.5, 3.5);
+    expectMoments(Distributions.poisson(200, Random.pcg32(6)), 200, 200);
+    expect(Distributions.poisson(0).next()).toBe(0);
+});
+
+test("binomial() has mean np and variance np(1-p)", () => {
+    expectMoments(Distributions.binomial(20, 0.25, Random.pcg32(7)), 5, 3.75);
+    expectMoments(Distributions.binomial(1000, 0.3, Random.pcg32(8)), 300, 210);
+});
+
+test("binomial() generates ints within [0, n]", () => {
+    const tmp =
+        Random.list(1000, Distributions.binomial(500, 0.9))
+            .next()
+            .every(k => Number.isInteger(k) && k >= 0 && k <= 500);
+
+    expect(tmp).toBe(true);
+});
+
+test("geometric() has mean 1/p and variance (1-p)/p²", () => {
+    expectMoments(Distributions.geometric(0.2, Random.pcg32(9)), 5, 20);
+    expect(Distributions.geometric(1).next()).toBe(1);
+});
+
+test("gamma() has mean kθ and variance kθ²", () => {
+    expectMoments(Distributions.gamma(3, 2, Random.pcg32(10)), 6, 12);
+    expectMoments(Distributions.gamma(0.5, 1, Random.pcg32(11)), 0.5, 0.5);
+});
+
+test("beta() has mean α/(α+β)", () => {
+    const [a, b] = [2, 5];
+    expectMoments(Distributions.beta(a, b, Random.pcg32(12)), a / (a + b), a * b / ((a + b) ** 2 * (a + b + 1)));
+});
+
+test("triangular() has mean (min+mode+max)/3", () => {
+    const [a, c, b] = [2, 4, 10];
+    expectMoments(
+        Distributions.triangular(a, c, b, Random.pcg32(13)),
+        (a + b + c) / 3,
+        (a * a + b * b + c * c - a * b - a * c - b * c) / 18
+    );
+});
+
+test("distributions thread the seed", () => {
+    const generator = Random.tuple(Distributions.normal(0, 1), Distributions.poisson(50), Distributions.beta(2, 3));
+    const seed = Random.initialSeed(14);
+
+    expect(Random.step(generator, seed)).toStrictEqual(Random.step(generator, seed));
+});
+
+test("distributions throw an InvalidParameterError for invalid parameters", () => {
+    [
+        () => Distributions.bernoulli(1.5),
+        () => Distributions.normal(0, -1),
+        () => Distributions.logNormal(NaN, 1),
+        () => Distributions.exponential(0),
+        () => Distributions.poisson(-1),
+        () => Distributions.binomial(2.5, 0.5),
+        () => Distributions.geometric(0),
+        () => Distributions.gamma(0, 1),
+        () => Distributions.beta(1, Infinity),
+        () => Distributions.triangular(0, 5, 4)
+    ].forEach(create => expect(create).toThrow(Distributions.InvalidParameterError));
+});
+
+test("triangular() blames the parameter that is invalid", () => {
+    expect(() => Distributions.triangular(0, 0, NaN)).toThrow(expect.objectContaining({ parameter: "max" }));
+    expect(() => Distributions.triangular(5, 5, 4)).toThrow(expect.objectContaining({ parameter: "min" }));
+});
@@ -0,0 +1,129 @@
+import * as Random from "../src/elmish-random";
+import { Cmd, LocalGenerateCmd, batch, generate, isCmd, none, perform, randomMiddleware, simulate, start } from "../src/effects";
+
+type Msg =
+    | { type: "roll" }
+    | { type: "rollTwice" }
+    | { type: "rolled", face: number };
+
+const registry = { rolled: (face: number): Msg => ({ type: "rolled", face }) };
+
+const update = (msg: Msg, model: number[]): [number[], Cmd<Msg>] => {
+    const roll = generate<number, Msg>("rolled", Random.int(1, 6));
+    switch (msg.type) {
+        case "roll":
+            return [model, roll];
+        case "rollTwice":
+            return [model, batch([roll, roll])];
+        case "rolled":
+            return [[...model, msg.face], none];
+    }
+};
+
+test("generate() creates a plain, serializable command object", () => {
+    const functions = { double: (x: number) => 2 * x };
+    const cmd = generate("rolled", Random.int(1, 6).map(functions.double), functions);
+
+    expect(cmd.type).toBe("elmish-random/generate");
+    expect(JSON.parse(JSON.stringify(cmd))).toStrictEqual({
+        type: "elmish-random/generate",
+        tag: "rolled",
+        generator: { kind: "map", name: "double", generator: { kind: "int", min: 1, max: 6 } }
+    });
+    expect(isCmd(cmd)).toBe(true);
+    expect(isCmd(none)).toBe(true);
+    expect(isCmd({ type: "rolled", face: 3 })).toBe(false);
+    expect(isCmd(null)).toBe(false);
+});
+
+test("generate() keeps generators without a description in a local command", () => {
+    const coin = Random.boolean();
+    const unregistered = Random.int(1, 6).map(x => 2 * x);
+
+    const flip = generate("flipped", coin) as LocalGenerateCmd<unknown>;
+    const roll = generate("rolled", unregistered) as LocalGenerateCmd<unknown>;
+
+    expect([flip.type, flip.tag, roll.type]).toStrictEqual(["elmish-random/generate-local", "flipped", "elmish-random/generate-local"]);
+    expect(flip.generator).toBe(coin);
+    expect(roll.generator).toBe(unregistered);
+    expect(isCmd(flip)).toBe(true);
+});
+
+test("perform() dispatches the messages of a command in order", () => {
+    const messages: string[] = [];
+    const tags = { a: (x: number) => `a${x}`, b: (x: number) => `b${x}`, c: (x: number) => `c${x}` };
+    const cmd = batch<string>([
+        generate("a", Random.constant(1)),
+        batch([generate("b", Random.constant(2)), none]),
+        generate("c", Random.constant(3))
+    ]);
+    perform(cmd, msg => messages.push(msg), tags);
+
+    expect(messages).toStrictEqual(["a1", "b2", "c3"]);
+    expect(() => perform(generate("missing", Random.constant(1)), () => undefined, tags)).toThrow(Random.DescriptionError);
+});
+
+test("perform() draws the values of local commands from its source", () => {
+    const messages: Array<[boolean, number]> = [];
+    const cmd = generate<[boolean, number], [boolean, number]>("pair", Random.tuple(Random.boolean(), Random.int(1, 6)));
+    perform(cmd, msg => messages.push(msg), { pair: (x: [boolean, number]) => x }, Random.pcg32(7));
+
+    const source = Random.pcg32(7);
+    expect(messages).toStrictEqual([Random.tuple(Random.boolean(source), Random.int(1, 6, source)).next()]);
+});
+
+test("start() runs the update loop and performs commands", () => {
+    const models: number[][] = [];
+    const runtime = start({ init: [[], generate("rolled", Random.int(1, 6))], update, registry, onUpdate: model => models.push(model) });
+    runtime.dispatch({ type: "roll" });
+    runtime.dispatch({ type: "rollTwice" });
+
+    expect(runtime.model().length).toBe(4);
+    expect(runtime.model().every(face => face >= 1 && face <= 6)).toBe(true);
+    expect(models.map(model => model.length)).toStrictEqual([1, 1, 2, 2, 3, 4]);
+});
+
+test("start() drops the queued messages when update throws", () => {
+    const handled: Msg[] = [];
+    const runtime = start<number[], Msg>({
+        init: [[], none],
+        update: (msg, model) => {
+            handled.push(msg);
+            if (msg.type === "rolled" && handled.length === 2) {
+                throw new Error("boom");
+            }
+            return update(msg, model);
+        },
+        registry
+    });
+
+    expect(() => runtime.dispatch({ type: "rollTwice" })).toThrow("boom");
+    runtime.dispatch({ type: "roll" });
+
+    expect(handled.map(msg => msg.type)).toStrictEqual(["rollTwice", "rolled", "roll", "rolled"]);
+});
+
+test("simulate() is deterministic for a seeded source", () => {
+    const program = { init: [[], none] as [number[], Cmd<Msg>], update, registry };
+    const msgs: Msg[] = [{ type: "roll" }, { type: "rollTwice" }];
+    const result = simulate(program, msgs, Random.pcg32(42));
+
+    expect(simulate(program, msgs, Random.pcg32(42))).toStrictEqual(result);
+    expect(result.messages.map(msg => msg.type)).toStrictEqual(["roll", "rolled", "rollTwice", "rolled", "rolled"]);
+    expect(result.model).toStrictEqual(Random.list(3, Random.int(1, 6, Random.pcg32(42))).next());
+});
+
+test("randomMiddleware() performs commands and passes on other actions", () => {
+    const reduced: unknown[] = [];
+    const store = { dispatch: (action: unknown): unknown => middleware(action) };
+    const middleware = randomMiddleware(registry, Random.pcg32(1))(store)((action: unknown) => reduced.push(action));
+
+    store.dispatch({ type: "reset" });
+    // commands survive a round trip through JSON, e.g. through a devtools or persistence middleware
+    store.dispatch(JSON.parse(JSON.stringify(generate("rolled", Random.int(1, 6)))));
+
+    expect(reduced).toStrictEqual([
+        { type: "reset" },
+        { type: "rolled", face: Random.int(1, 6, Random.pcg32(1)).next() }
+    ]);
+});
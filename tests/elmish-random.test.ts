@@ -222,4 +222,854 @@ test("list() generates lists with given length", () => {
     
     expect(tmp).toBe(true);
             
-});
\ No newline at end of file
+});
+
+test("initialSeed() creates the same seed from the same number", () => {
+    expect(Random.initialSeed(42)).toStrictEqual(Random.initialSeed(42));
+    expect(Random.initialSeed(42)).not.toStrictEqual(Random.initialSeed(43));
+});
+
+test("step() returns the same value and seed for the same seed", () => {
+    const generator =
+        Random.list(10, Random.int(0, 100));
+    const seed = Random.initialSeed(1234);
+
+    const [first, seed1] = Random.step(generator, seed);
+    const [second, seed2] = Random.step(generator, seed);
+
+    expect(first).toStrictEqual(second);
+    expect(seed1).toStrictEqual(seed2);
+    expect(seed1).not.toStrictEqual(seed);
+});
+
+test("step() does not change the given seed", () => {
+    const seed = Random.initialSeed(1234);
+    const copy = { ...seed };
+
+    Random.step(Random.float(0, 1), seed);
+
+    expect(seed).toStrictEqual(copy);
+});
+
+test("step() can be replayed from any intermediate seed", () => {
+    const generator = Random.float(0, 1);
+    const [, seed1] = Random.step(generator, Random.initialSeed(7));
+    const [value2, seed2] = Random.step(generator, seed1);
+    const [value3] = Random.step(generator, seed2);
+
+    expect(Random.step(generator, seed1)[0]).toBe(value2);
+    expect(Random.step(generator, seed2)[0]).toBe(value3);
+    expect(value2).not.toBe(value3);
+});
+
+test("step() threads the seed through map, then, pair and uniform", () => {
+    const generator =
+        Random.int(1, 3)
+            .then(l => Random.list(l, Random.pair(Random.boolean(), Random.uniform("a", ["b", "c"]))))
+            .map(xs => xs.map(([b, s]) => b + s).join());
+    const seed = Random.initialSeed(99);
+
+    expect(Random.step(generator, seed)).toStrictEqual(Random.step(generator, seed));
+});
+
+test("step() replaces the source a generator was built with", () => {
+    const seed = Random.initialSeed(5);
+
+    expect(Random.step(Random.float(0, 1, Random.simpleSeeded(1)), seed)[0])
+        .toBe(Random.step(Random.float(0, 1, Random.simpleSeeded(2)), seed)[0]);
+});
+
+test("step() generates floats between 0 and 1", () => {
+    const generator = Random.float(0, 1);
+    let seed = Random.initialSeed(0);
+    let value: number;
+
+    for (let i = 0; i < 1000; i += 1) {
+        [value, seed] = Random.step(generator, seed);
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+    }
+});
+
+// Reference vectors from independent sources:
+// - pcg32: the first five words of elm/random's `Random.initialSeed 42` (what `Random.step` draws from),
+//   computed with elm/random 1.0.0's `initialSeed`, `next` and `peel` as the Elm compiler emits them.
+// - splitmix32: every word is the MurmurHash3 finalizer of the Weyl sequence, so a seed that puts 1 and
+//   0xFFFFFFFF into the sequence has to give MurmurHash3_x86_32 of the empty string with seeds 1 and 0xFFFFFFFF (SMHasher).
+// - xoshiro128ss: the reference C implementation (https://prng.di.unimi.it/xoshiro128starstar.c) with state [1, 2, 3, 4].
+test("pcg32() produces its reference vector", () => {
+    const source = Random.pcg32(42);
+
+    expect(Array(5).fill(0).map(source.word))
+        .toStrictEqual([1298916341, 1812132144, 218865204, 3484311950, 4237648050]);
+});
+
+test("splitmix32() produces its reference vector", () => {
+    expect(Random.splitmix32(0x61C88648).word()).toBe(0x514E28B7);
+    expect(Random.splitmix32(0x61C88646).word()).toBe(0x81F16F39);
+});
+
+test("xoshiro128ss() produces its reference vector", () => {
+    const source = Random.xoshiro128ss([1, 2, 3, 4]);
+
+    expect(Array(5).fill(0).map(source.word))
+        .toStrictEqual([11520, 0, 5927040, 70819200, 2031721883]);
+});
+
+test("xoshiro128ss() rejects an all-zero state", () => {
+    expect(() => Random.xoshiro128ss([0, 0, 0, 0])).toThrow();
+});
+
+test("pcg32() follows the same stream as initialSeed()", () => {
+    const source = Random.pcg32(1234);
+    const [value] = Random.step(Random.float(0, 1), Random.initialSeed(1234));
+    const hi = source.word() & 0x03FFFFFF;
+    const lo = source.word() & 0x07FFFFFF;
+
+    expect((hi * 134217728 + lo) / 9007199254740992).toBe(value);
+});
+
+test("seeded sources generate evenly distributed floats in [0,1)", () => {
+    const n = 10000;
+
+    [Random.pcg32(1), Random.splitmix32(1), Random.xoshiro128ss(1)]
+        .forEach(source => {
+            const floats = Array(n).fill(0).map(() => source());
+            const buckets =
+                floats.reduce(
+                    (acc: number[], x) => {
+                        acc[Math.floor(x * 10)] += 1;
+                        return acc;
+                    },
+                    Array(10).fill(0)
+                );
+
+            expect(floats.every(x => x >= 0 && x < 1)).toBe(true);
+            expect(buckets.every(count => count > 900 && count < 1100)).toBe(true);
+        });
+});
+
+test("seeded sources are reproducible", () => {
+    [Random.pcg32, Random.splitmix32, Random.xoshiro128ss]
+        .forEach(makeSource => {
+            const a = Random.list(20, Random.float(0, 1, makeSource(99)));
+            const b = Random.list(20, Random.float(0, 1, makeSource(99)));
+            expect(a.next()).toStrictEqual(b.next());
+        });
+});
+
+test("split() returns two different seeds deterministically", () => {
+    const seed = Random.initialSeed(42);
+    const [left, right] = Random.split(seed);
+
+    expect(Random.split(seed)).toStrictEqual([left, right]);
+    expect(left).not.toStrictEqual(right);
+    expect(left.increment).not.toBe(right.increment);
+});
+
+test("split() seeds generate different values", () => {
+    const generator = Random.list(5, Random.int(0, 1000));
+    const [left, right] = Random.split(Random.initialSeed(42));
+
+    expect(Random.step(generator, left)[0])
+        .not.toStrictEqual(Random.step(generator, right)[0]);
+});
+
+test("independentSeed() generates seeds from a source", () => {
+    const seeds = Random.list(3, Random.independentSeed(Random.pcg32(1))).next();
+
+    expect(new Set(seeds.map(s => s.increment)).size).toBe(3);
+    expect(seeds.every(s => s.increment % 2 === 1)).toBe(true);
+});
+
+test("independentPair() keeps the right value when the left generator changes", () => {
+    const seed = Random.initialSeed(1234);
+    const right = Random.float(0, 1);
+
+    const [[, a]] = Random.step(Random.independentPair(Random.list(2, Random.int(0, 9)), right), seed);
+    const [[, b]] = Random.step(Random.independentPair(Random.list(20, Random.int(0, 9)), right), seed);
+
+    expect(a).toBe(b);
+});
+
+test("independentList() keeps earlier values when the list grows", () => {
+    const seed = Random.initialSeed(1234);
+    const generator = Random.list(3, Random.float(0, 1));
+
+    const [short] = Random.step(Random.independentList(3, generator), seed);
+    const [long] = Random.step(Random.independentList(5, generator), seed);
+
+    expect(long.slice(0, 3)).toStrictEqual(short);
+});
+
+test("independent() draws three words from the source", () => {
+    const counting = Random.pcg32(1);
+    let draws = 0;
+    const source = () => {
+        draws += 1;
+        return counting();
+    };
+
+    Random.independent(Random.list(100, Random.float(0, 1)), source).next();
+
+    expect(draws).toBe(3);
+});
+
+test("cryptoSource() generates floats in [0,1)", () => {
+    const source = Random.cryptoSource(16);
+    const n = 1000;
+
+    const tmp =
+        Array(n)
+            .fill(0)
+            .map(() => source())
+            .every(x => x >= 0 && x < 1);
+
+    expect(tmp).toBe(true);
+});
+
+test("cryptoSource() generates unsigned 32-bit words across batches", () => {
+    const source = Random.cryptoSource(4);
+    const words = Array(100).fill(0).map(source.word);
+
+    expect(words.every(w => Number.isInteger(w) && w >= 0 && w < 4294967296)).toBe(true);
+    expect(new Set(words).size).toBeGreaterThan(90);
+});
+
+test("cryptoSource() plugs into generators", () => {
+    const chars = "abcdef".split("");
+    const generator =
+        Random.list(16, Random.uniform(chars[0], chars.slice(1), Random.cryptoSource()))
+            .map(cs => cs.join(""));
+
+    expect(generator.next()).toMatch(/^[a-f]{16}$/);
+});
+
+test("int() uses the words of a WordSource", () => {
+    const words = [0, 5, 4294967295];
+    const source = Object.assign(() => 0.5, { word: () => words.shift() as number });
+    const generator = Random.int(0, 9, source);
+
+    expect([generator.next(), generator.next()]).toStrictEqual([0, 5]);
+});
+
+test("int() rejects words that would bias the result", () => {
+    // 4294967295 is above the largest multiple of 10 below 2^32 and is skipped
+    const words = [4294967295, 7];
+    const source = Object.assign(() => 0.5, { word: () => words.shift() as number });
+
+    expect(Random.int(0, 9, source).next()).toBe(7);
+});
+
+test("int(min,max) accepts bounds in any order", () => {
+    const seed = Random.initialSeed(3);
+
+    expect(Random.step(Random.list(20, Random.int(10, 0)), seed))
+        .toStrictEqual(Random.step(Random.list(20, Random.int(0, 10)), seed));
+});
+
+test("int(min,max) rounds non-integer bounds towards each other", () => {
+    const values = Random.list(1000, Random.int(0.5, 3.5)).next();
+
+    expect(new Set(values)).toStrictEqual(new Set([1, 2, 3]));
+});
+
+test("int(min,max) throws an InvalidRangeError for invalid bounds", () => {
+    expect(() => Random.int(0.2, 0.8)).toThrow(Random.InvalidRangeError);
+    expect(() => Random.int(0, NaN)).toThrow(Random.InvalidRangeError);
+    expect(() => Random.int(-Infinity, 0)).toThrow(Random.InvalidRangeError);
+    expect(() => Random.int(0, 2 ** 60)).toThrow(Random.InvalidRangeError);
+});
+
+test("int(min,max) generates ints across the whole safe integer range", () => {
+    const min = Number.MIN_SAFE_INTEGER;
+    const max = Number.MAX_SAFE_INTEGER;
+    const values = Random.list(1000, Random.int(min, max, Random.pcg32(1))).next();
+
+    expect(values.every(x => Number.isSafeInteger(x))).toBe(true);
+    expect(values.some(x => x < min / 2)).toBe(true);
+    expect(values.some(x => x > max / 2)).toBe(true);
+});
+
+test("int(min,max) generates every int equally often", () => {
+    const n = 60000;
+    const counts =
+        Random.list(n, Random.int(1, 6, Random.xoshiro128ss(6)))
+            .next()
+            .reduce(
+                (acc: number[], v) => {
+                    acc[v - 1] += 1;
+                    return acc;
+                },
+                Array(6).fill(0)
+            );
+    const chiSquare =
+        counts.reduce((acc, count) => acc + (count - n / 6) ** 2 / (n / 6), 0);
+
+    // 99.9% quantile of the chi-square distribution with 5 degrees of freedom
+    expect(chiSquare).toBeLessThan(20.52);
+});
+
+test("bigInt(min,max) generates bigints within bounds", () => {
+    const min = -(BigInt(1) << BigInt(100));
+    const max = BigInt(1) << BigInt(100);
+    const values = Random.list(1000, Random.bigInt(max, min, Random.pcg32(1))).next();
+
+    expect(values.every(x => typeof x === "bigint" && x >= min && x <= max)).toBe(true);
+    expect(values.some(x => x < min / BigInt(2))).toBe(true);
+});
+
+test("bigInt(min,max) generates every bigint of a small range", () => {
+    const values = Random.list(1000, Random.bigInt(BigInt(-2), BigInt(2))).next();
+
+    expect(new Set(values).size).toBe(5);
+});
+
+test("weighted() picks items according to their weights", () => {
+    const n = 40000;
+    const generator =
+        Random.weighted<string>(["a", 1], [["b", 0], ["c", 3]], Random.pcg32(7));
+    const counts =
+        Random.list(n, generator)
+            .next()
+            .reduce(
+                (acc: { [key: string]: number }, s) => {
+                    acc[s] = (acc[s] || 0) + 1;
+                    return acc;
+                },
+                {}
+            );
+
+    expect(counts["b"]).toBeUndefined();
+    expect(counts["a"] / n).toBeCloseTo(0.25, 1);
+    expect(counts["c"] / n).toBeCloseTo(0.75, 1);
+});
+
+test("weighted() handles tens of thousands of entries", () => {
+    const entries: Array<[number, number]> =
+        Array(20000).fill(0).map((_, i) => [i, (i % 7) + 1]);
+    const generator =
+        Random.weighted(entries[0], entries.slice(1));
+
+    const tmp =
+        Random.list(1000, generator)
+            .next()
+            .every(x => Number.isInteger(x) && x >= 0 && x < 20000);
+
+    expect(tmp).toBe(true);
+});
+
+test("weighted() throws an InvalidWeightsError for invalid weights", () => {
+    expect(() => Random.weighted(["a", -1], [["b", 1]])).toThrow(Random.InvalidWeightsError);
+    expect(() => Random.weighted(["a", NaN], [["b", 1]])).toThrow(Random.InvalidWeightsError);
+    expect(() => Random.weighted(["a", Infinity], [["b", 1]])).toThrow(Random.InvalidWeightsError);
+    expect(() => Random.weighted(["a", 0], [["b", 0]])).toThrow(Random.InvalidWeightsError);
+    expect(() => Random.weighted(["a", 0], [])).toThrow(Random.InvalidWeightsError);
+});
+
+test("tuple() generates tuples with given types", () => {
+    const generator: Random.Generator<[string, number, boolean]> =
+        Random.tuple(Random.constant("X"), Random.constant(1), Random.constant(true));
+
+    expect(generator.next()).toStrictEqual(["X", 1, true]);
+});
+
+test("tuple() threads the seed through every position", () => {
+    const generator = Random.tuple(Random.int(0, 9), Random.float(0, 1), Random.boolean());
+    const seed = Random.initialSeed(8);
+
+    expect(Random.step(generator, seed)).toStrictEqual(Random.step(generator, seed));
+});
+
+test("object() generates objects with given types", () => {
+    const generator: Random.Generator<{ name: string, age: number }> =
+        Random.object({
+            name: Random.uniform("Ada", ["Grace"]),
+            age: Random.int(18, 99)
+        });
+    const person = generator.next();
+
+    expect(Object.keys(person)).toStrictEqual(["name", "age"]);
+    expect(["Ada", "Grace"]).toContain(person.name);
+    expect(person.age).toBeGreaterThanOrEqual(18);
+});
+
+test("object() and tuple() shrink one value at a time", () => {
+    const person = Random.object({ admin: Random.boolean(), age: Random.int(0, 99) });
+
+    expect(Random.shrink(person, { admin: true, age: 2 }))
+        .toStrictEqual([{ admin: false, age: 2 }, { admin: true, age: 0 }, { admin: true, age: 1 }]);
+    expect(Random.shrink(Random.tuple(Random.int(0, 9), Random.int(0, 9)), [1, 1]))
+        .toStrictEqual([[0, 1], [1, 0]]);
+});
+
+test("map2() to map5() combine generators with a function", () => {
+    const one = Random.constant(1);
+
+    expect(Random.map2((a, b) => a + b, one, one).next()).toBe(2);
+    expect(Random.map3((a, b, c) => a + b + c, one, one, one).next()).toBe(3);
+    expect(Random.map4((a, b, c, d) => a + b + c + d, one, one, one, one).next()).toBe(4);
+    expect(Random.map5((a, b, c, d, e) => [a, b, c, d, e].join(""), one, Random.constant("b"), one, one, one).next())
+        .toBe("1b111");
+});
+
+test("andMap() applies generated values to a generated function", () => {
+    const user = (name: string) => (age: number) => ({ name, age });
+    const generator =
+        Random.andMap(Random.constant(42),
+            Random.andMap(Random.constant("Ada"), Random.constant(user)));
+
+    expect(generator.next()).toStrictEqual({ name: "Ada", age: 42 });
+});
+
+test("listOf() generates lists with every length within bounds", () => {
+    const lengths =
+        Random.list(1000, Random.listOf({ min: 2, max: 5 }, Random.boolean()))
+            .next()
+            .map(l => l.length);
+
+    expect(new Set(lengths)).toStrictEqual(new Set([2, 3, 4, 5]));
+});
+
+test("listOf() rejects negative and reversed bounds", () => {
+    expect(() => Random.listOf({ min: 5, max: 1 }, Random.boolean())).toThrow(Random.InvalidRangeError);
+    expect(() => Random.listOf({ min: -3, max: -1 }, Random.boolean())).toThrow(Random.InvalidRangeError);
+    expect(() => Random.listOf({ min: -1 }, Random.boolean())).toThrow(Random.InvalidRangeError);
+});
+
+test("listOf() shrinks to shorter lists first", () => {
+    const generator = Random.listOf({ min: 1, max: 5 }, Random.int(0, 9));
+
+    expect(Random.shrink(generator, [3, 4, 5]).slice(0, 4))
+        .toStrictEqual([[3], [4, 5], [3, 5], [3, 4]]);
+});
+
+test("nonEmptyList() never generates empty lists", () => {
+    const tmp =
+        Random.list(1000, Random.nonEmptyList(3, Random.constant("X")))
+            .next()
+            .every(l => l.length >= 1 && l.length <= 3);
+
+    expect(tmp).toBe(true);
+});
+
+test("uniqueList() generates distinct values", () => {
+    const values = Random.uniqueList(10, Random.int(1, 10)).next();
+
+    expect([...values].sort((a, b) => a - b)).toStrictEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+});
+
+test("uniqueList() compares values by key", () => {
+    const users =
+        Random.uniqueList(3, Random.object({ id: Random.int(1, 3), name: Random.uniform("Ada", ["Grace"]) }), { key: u => u.id })
+            .next();
+
+    expect(new Set(users.map(u => u.id)).size).toBe(3);
+});
+
+test("uniqueList() throws a RetriesExhaustedError if there aren't enough distinct values", () => {
+    const generator = Random.uniqueList(3, Random.uniform("a", ["b"]), { maxTries: 20 });
+
+    expect(() => generator.next()).toThrow(Random.RetriesExhaustedError);
+});
+
+test("set(), mapOf() and record() generate collections of the given size", () => {
+    expect(Random.set(4, Random.int(0, 5)).next().size).toBe(4);
+    expect(Random.mapOf(3, Random.int(0, 5), Random.boolean()).next().size).toBe(3);
+    expect(Object.keys(Random.record(2, Random.uniform("a", ["b", "c"]), Random.int(0, 1)).next()).length).toBe(2);
+});
+
+test("shuffle() generates permutations", () => {
+    const values = ["a", "b", "c", "d", "e"];
+    const shuffled = Random.shuffle(values).next();
+
+    expect([...shuffled].sort()).toStrictEqual(values);
+    expect(values).toStrictEqual(["a", "b", "c", "d", "e"]);
+});
+
+test("shuffle() generates every permutation equally often", () => {
+    const n = 60000;
+    const counts =
+        Random.list(n, Random.shuffle([1, 2, 3], Random.pcg32(3)))
+            .next()
+            .reduce(
+                (acc: { [key: string]: number }, p) => {
+                    acc[p.join("")] = (acc[p.join("")] || 0) + 1;
+                    return acc;
+                },
+                {}
+            );
+    const chiSquare =
+        Object.keys(counts).reduce((acc, key) => acc + (counts[key] - n / 6) ** 2 / (n / 6), 0);
+
+    expect(Object.keys(counts).length).toBe(6);
+    // 99.9% quantile of the chi-square distribution with 5 degrees of freedom
+    expect(chiSquare).toBeLessThan(20.52);
+});
+
+test("sample() picks k distinct positions", () => {
+    const values = [1, 2, 3, 4, 5, 6, 7];
+    const picked = Random.sample(3, values).next();
+
+    expect(picked.length).toBe(3);
+    expect(new Set(picked).size).toBe(3);
+    expect(picked.every(x => values.indexOf(x) >= 0)).toBe(true);
+    expect(() => Random.sample(8, values)).toThrow(Random.InvalidRangeError);
+});
+
+test("Generator.filter() keeps only values that pass the predicate", () => {
+    const tmp =
+        Random.list(1000, Random.int(0, 99).filter(x => x % 2 === 1))
+            .next()
+            .every(x => x % 2 === 1);
+
+    expect(tmp).toBe(true);
+});
+
+test("Generator.filter() throws a RetriesExhaustedError with the last rejected value", () => {
+    const generator =
+        Random.int(0, 99).filter(x => x > 100, { maxTries: 10 });
+
+    expect(() => generator.next()).toThrow(Random.RetriesExhaustedError);
+    try {
+        generator.next();
+    }
+    catch (error) {
+        expect(error.lastRejected).toBeLessThanOrEqual(99);
+    }
+});
+
+test("Generator.filter() shrinks to values that pass the predicate", () => {
+    const evens = Random.int(0, 100).filter(x => x % 2 === 0);
+
+    expect(Random.shrink(evens, 10)).toStrictEqual([0, 8]);
+});
+
+test("Generator.filterMap() transforms values and skips undefined", () => {
+    const tmp =
+        Random.list(1000, Random.int(-5, 5).filterMap(x => x !== 0 ? 10 / x : undefined))
+            .next()
+            .every(x => Number.isFinite(x));
+
+    expect(tmp).toBe(true);
+});
+
+test("suchThat() is filter as a function", () => {
+    const seed = Random.initialSeed(21);
+    const generator = Random.int(0, 9);
+
+    expect(Random.step(Random.suchThat(generator, x => x > 4), seed))
+        .toStrictEqual(Random.step(generator.filter(x => x > 4), seed));
+});
+
+test("oneOf() picks among generators", () => {
+    const generator =
+        Random.oneOf(Random.int(0, 9), [Random.int(1000, 1009)]);
+    const values = Random.list(1000, generator).next();
+
+    expect(values.every(x => x <= 9 || x >= 1000 && x <= 1009)).toBe(true);
+    expect(values.some(x => x <= 9) && values.some(x => x >= 1000)).toBe(true);
+});
+
+test("frequency() picks among generators by weight", () => {
+    const generator =
+        Random.frequency([1, Random.constant("rare")], [[0, Random.constant("never")], [9, Random.constant("common")]], Random.pcg32(4));
+    const values = Random.list(10000, generator).next();
+
+    expect(values.indexOf("never")).toBe(-1);
+    expect(values.filter(s => s === "rare").length / 10000).toBeCloseTo(0.1, 1);
+});
+
+type Chain = { value: number, rest: Chain | null };
+
+test("lazy() allows generators to refer to themselves", () => {
+    const chains: Random.Generator<Chain> =
+        Random.object({
+            value: Random.int(0, 9),
+            rest: Random.frequency<Chain | null>([1, Random.constant(null)], [[1, Random.lazy(() => chains)]])
+        });
+    const chain = chains.next();
+
+    expect(chain.value).toBeGreaterThanOrEqual(0);
+    expect(chain.rest === null || typeof chain.rest.value === "number").toBe(true);
+});
+
+type Tree = number | Tree[];
+
+const depth = (tree: Tree): number =>
+    typeof tree === "number"
+        ? 0
+        : 1 + Math.max(0, ...tree.map(depth));
+
+test("recursive() never nests deeper than maxDepth", () => {
+    const trees =
+        Random.recursive<Tree>(
+            Random.int(0, 9),
+            self => Random.list(3, self),
+            { maxDepth: 4, sizeDecay: 1 }
+        );
+
+    expect(Random.list(100, trees).next().map(depth)).toStrictEqual(Array(100).fill(4));
+});
+
+test("recursive() uses step less often the deeper it gets", () => {
+    const trees =
+        Random.recursive<Tree>(
+            Random.int(0, 9),
+            self => Random.list(2, self),
+            { maxDepth: 10, sizeDecay: 0.5 }
+        );
+    const depths = Random.list(1000, trees).next().map(depth);
+
+    expect(depths.some(d => d === 0)).toBe(true);
+    expect(depths.every(d => d <= 10)).toBe(true);
+    expect(depths.filter(d => d === 0).length).toBeGreaterThan(depths.filter(d => d === 1).length);
+});
+
+test("recursive() threads the seed", () => {
+    const trees =
+        Random.recursive<Tree>(Random.int(0, 9), self => Random.listOf({ min: 1, max: 3 }, self));
+    const seed = Random.initialSeed(33);
+
+    expect(Random.step(Random.list(10, trees), seed)).toStrictEqual(Random.step(Random.list(10, trees), seed));
+});
+
+test("sized() creates generators from the size", () => {
+    const generator = Random.sized(n => Random.constant(n));
+    const seed = Random.initialSeed(1);
+
+    expect(Random.step(generator, seed, 7)[0]).toBe(7);
+    expect(Random.step(generator, seed)[0]).toBe(Random.defaultSize);
+    expect(generator.next()).toBe(Random.defaultSize);
+});
+
+test("sized() passes the size through combinators", () => {
+    const generator =
+        Random.pair(Random.sized(n => Random.constant(n)), Random.constant(0))
+            .map(([n]) => n)
+            .then(n => Random.sized(m => Random.constant(n + m)));
+
+    expect(Random.step(generator, Random.initialSeed(1), 5)[0]).toBe(10);
+});
+
+test("resize() fixes the size", () => {
+    const generator = Random.resize(3, Random.sized(n => Random.constant(n)));
+
+    expect(Random.step(generator, Random.initialSeed(1), 100)[0]).toBe(3);
+    expect(generator.next()).toBe(3);
+});
+
+test("listOf() without max grows with the size", () => {
+    const generator = Random.list(100, Random.listOf({ min: 1 }, Random.boolean()));
+    const lengths = (size?: number) =>
+        Random.step(generator, Random.initialSeed(2), size)[0].map(l => l.length);
+
+    expect(lengths(3).every(l => l >= 1 && l <= 3)).toBe(true);
+    expect(lengths(0).every(l => l === 1)).toBe(true);
+    expect(Math.max(...lengths(1000))).toBeGreaterThan(100);
+    expect(Math.max(...lengths())).toBeLessThanOrEqual(Random.defaultSize);
+});
+
+test("listOf() with max is limited by the size", () => {
+    const generator = Random.list(100, Random.listOf({ min: 0, max: 50 }, Random.boolean()));
+    const lengths = (size?: number) =>
+        Random.step(generator, Random.initialSeed(2), size)[0].map(l => l.length);
+
+    expect(Math.max(...lengths(5))).toBeLessThanOrEqual(5);
+    expect(Math.max(...lengths(1000))).toBeLessThanOrEqual(50);
+    expect(Math.max(...lengths())).toBeGreaterThan(Random.defaultSize);
+});
+
+test("recursive() generates only base values at size 0 and shrinks the size at each level", () => {
+    const trees =
+        Random.list(100, Random.recursive<Tree>(
+            Random.int(0, 9),
+            self => Random.list(2, self),
+            { maxDepth: 10, sizeDecay: 0.9 }
+        ));
+
+    expect(Random.step(trees, Random.initialSeed(3), 0)[0].every(t => typeof t === "number")).toBe(true);
+    expect(Random.step(trees, Random.initialSeed(3), 2)[0].map(depth).every(d => d <= 2)).toBe(true);
+});
+
+test("Generator.take() generates n values", () => {
+    const values = Random.int(0, 9).take(25);
+
+    expect(values.length).toBe(25);
+    expect(values.every(x => x >= 0 && x <= 9)).toBe(true);
+});
+
+test("Generators are infinite iterables", () => {
+    const [a, b, c] = Random.constant("X");
+    const values: number[] = [];
+    for (const x of Random.int(0, 9)) {
+        values.push(x);
+        if (values.length === 100) {
+            break;
+        }
+    }
+
+    expect([a, b, c]).toStrictEqual(["X", "X", "X"]);
+    expect(values.length).toBe(100);
+});
+
+test("sampleN() fills a Float64Array", () => {
+    const samples = Random.sampleN(1000, Random.float(-1, 1));
+
+    expect(samples).toBeInstanceOf(Float64Array);
+    expect(samples.length).toBe(1000);
+    expect(samples.every(x => x >= -1 && x < 1)).toBe(true);
+});
+
+test("fillFloat64() fills the buffer with the values of the generator", () => {
+    const floats = Random.fillFloat64(Random.float(-1, 1), new Float64Array(1000));
+    const rounded = Random.fillFloat64(Random.floatWithPrecision(0, 10, 2), new Float64Array(1000));
+    const mapped = Random.fillFloat64(Random.int(0, 9).map(x => x / 10), new Float64Array(1000));
+
+    expect(floats.every(x => x >= -1 && x < 1)).toBe(true);
+    expect(rounded.every(x => x >= 0 && x < 10 && Math.abs(Math.round(x * 100) - x * 100) < 1e-9)).toBe(true);
+    expect(mapped.every(x => x >= 0 && x <= 0.9)).toBe(true);
+});
+
+test("fillInt32() draws the same values as generating them one by one", () => {
+    const bulk = Random.fillInt32(Random.int(-5, 1000), new Int32Array(1000));
+    const oneByOne = Random.int(-5, 1000).take(1000);
+
+    const seededBulk = Random.fillInt32(Random.int(1, 6, Random.pcg32(42)), new Int32Array(100));
+    const seededOneByOne = Random.int(1, 6, Random.pcg32(42)).take(100);
+
+    expect(bulk.every(x => x >= -5 && x <= 1000)).toBe(true);
+    expect(new Set(bulk).size).toBeGreaterThan(500);
+    expect(oneByOne.length).toBe(1000);
+    expect(Array.from(seededBulk)).toStrictEqual(seededOneByOne);
+});
+
+test("seeded sources fill words and floats in bulk exactly like one by one", () => {
+    [() => Random.pcg32(7), () => Random.splitmix32(7), () => Random.xoshiro128ss(7)]
+        .forEach(create => {
+            const bulk = create();
+            const oneByOne = create();
+            const words = new Uint32Array(5000);
+            const floats = new Float64Array(5000);
+            (bulk.words as (buffer: Uint32Array) => void)(words);
+            (bulk.floats as (buffer: Float64Array) => void)(floats);
+
+            expect(Array.from(words)).toStrictEqual(Array(5000).fill(0).map(oneByOne.word));
+            expect(Array.from(floats)).toStrictEqual(Array(5000).fill(0).map(() => oneByOne()));
+            // and both continue with the same state
+            expect(bulk.word()).toBe(oneByOne.word());
+        });
+});
+
+test("fillFloat64() and fillInt32() with seeded sources draw the same values as one by one", () => {
+    const floats = Random.fillFloat64(Random.float(-2, 3, Random.pcg32(3)), new Float64Array(10000));
+    // 3000000000 ints: almost a third of the words are rejected
+    const bulkSource = Random.xoshiro128ss(3);
+    const ints = Random.fillInt32(Random.int(0, 2999999999, bulkSource), new Int32Array(10000));
+    const oneByOneSource = Random.xoshiro128ss(3);
+    const oneByOne = Random.int(0, 2999999999, oneByOneSource).take(10000);
+
+    expect(Array.from(floats)).toStrictEqual(Random.float(-2, 3, Random.pcg32(3)).take(10000));
+    expect(Array.from(ints)).toStrictEqual(oneByOne.map(x => x | 0));
+    // no word is drawn in advance
+    expect(bulkSource.word()).toBe(oneByOneSource.word());
+});
+
+test("describe() returns a JSON-serializable description", () => {
+    const registry = { double: (x: number) => 2 * x };
+    const generator = Random.pair(
+        Random.list(3, Random.int(10, 0).map(registry.double)),
+        Random.weighted(["a", 1], [["b", 3]])
+    );
+
+    expect(JSON.parse(JSON.stringify(Random.describe(generator, registry)))).toStrictEqual({
+        kind: "pair",
+        left: { kind: "list", length: 3, generator: { kind: "map", name: "double", generator: { kind: "int", min: 0, max: 10 } } },
+        right: { kind: "weighted", values: [["a", 1], ["b", 3]] }
+    });
+});
+
+test("fromDescription() rebuilds the generator", () => {
+    const registry = {
+        double: (x: number) => 2 * x,
+        listOfLength: (n: number) => Random.list(n, Random.constant("x"))
+    };
+    const generator = Random.pair(Random.float(0, 1).map(registry.double), Random.int(1, 3).then(registry.listOfLength));
+    const description = JSON.parse(JSON.stringify(Random.describe(generator, registry)));
+    const rebuilt = Random.fromDescription<[number, string[]]>(description, registry, Random.pcg32(9));
+
+    expect(Random.describe(rebuilt, registry)).toStrictEqual(description);
+    expect(rebuilt.take(5)).toStrictEqual(Random.fromDescription(description, registry, Random.pcg32(9)).take(5));
+    expect(rebuilt.take(100).every(([x, xs]) => x >= 0 && x < 2 && xs.length >= 1 && xs.length <= 3)).toBe(true);
+});
+
+test("describe() and fromDescription() throw DescriptionErrors", () => {
+    const description: Random.Description = { kind: "map", name: "missing", generator: { kind: "constant", value: 1 } };
+
+    expect(() => Random.describe(Random.boolean())).toThrow(Random.DescriptionError);
+    expect(() => Random.describe(Random.int(0, 1).map(x => x + 1))).toThrow(Random.DescriptionError);
+    expect(() => Random.fromDescription(description)).toThrow(Random.DescriptionError);
+});
+
+test("fromDescription() rejects malformed descriptions", () => {
+    const malformed = [
+        null,
+        { kind: "list", length: 2 },
+        { kind: "list", length: -1, generator: { kind: "constant", value: 1 } },
+        { kind: "uniform", values: [] },
+        { kind: "weighted", values: [["a"]] },
+        { kind: "int", min: "0", max: 1 },
+        { kind: "pair", left: { kind: "constant", value: 1 }, right: { kind: "dice" } }
+    ];
+
+    malformed.forEach(description =>
+        expect(() => Random.fromDescription(description as unknown as Random.Description)).toThrow(Random.DescriptionError)
+    );
+});
+
+test("floatWithPrecision() has a description and shrinks to rounded values", () => {
+    const generator = Random.floatWithPrecision(0, 10, 2, Random.pcg32(4));
+    const description = Random.describe(generator);
+    const rebuilt = Random.fromDescription<number>(description, {}, Random.pcg32(4));
+
+    expect(description).toStrictEqual({ kind: "floatWithPrecision", min: 0, max: 10, precision: 2 });
+    expect(rebuilt.take(20)).toStrictEqual(Random.floatWithPrecision(0, 10, 2, Random.pcg32(4)).take(20));
+    expect(Random.shrink(generator, 7.31)[0]).toBe(0);
+    expect(Random.shrink(generator, 7.31).every(x => x !== 7.31 && x === Math.floor(x * 100) / 100)).toBe(true);
+});
+
+test("recording() logs the draws and replaying() feeds them back", () => {
+    const source = Random.recording(Random.pcg32(11));
+    const original = Random.pair(Random.list(3, Random.int(1, 6, source)), Random.float(0, 1, source)).next();
+    const replayed = Random.pair(Random.list(3, Random.int(1, 6, Random.replaying(source.log))), Random.float(0, 1, Random.replaying(source.log.slice(3)))).next();
+
+    expect(source.log.length).toBe(4);
+    expect(replayed).toStrictEqual(original);
+    expect(Random.list(3, Random.int(1, 6, Random.pcg32(11))).next()).toStrictEqual(original[0]);
+});
+
+test("replaying() throws once the log is used up", () => {
+    const dice = Random.int(1, 6, Random.replaying([0, 4294967291]));
+
+    expect(dice.take(2)).toStrictEqual([1, 6]);
+    expect(() => dice.next()).toThrow(Random.ReplayExhaustedError);
+});
+
+test("trace() returns the draws and replay() reproduces the value", () => {
+    const generator = Random.object({
+        name: Random.listOf({ min: 1, max: 8 }, Random.uniform("a", ["b", "c"])),
+        score: Random.float(0, 100),
+        level: Random.weighted([1, 5], [[2, 1]])
+    });
+    const { value, draws } = Random.trace(generator);
+
+    expect(draws.length).toBeGreaterThan(3);
+    expect(Random.replay(generator, draws)).toStrictEqual(value);
+    expect(() => Random.replay(generator, draws.slice(0, 2))).toThrow(Random.ReplayExhaustedError);
+});
+
+test("nextWith() takes every draw from the given source", () => {
+    const dice = Random.list(5, Random.int(1, 6));
+
+    expect(Random.nextWith(dice, Random.pcg32(3))).toStrictEqual(Random.list(5, Random.int(1, 6, Random.pcg32(3))).next());
+});
@@ -0,0 +1,102 @@
+import * as Random from "../src/elmish-random";
+import * as Fake from "../src/fake";
+import { InvalidParameterError } from "../src/distributions";
+
+test("names come from the locale", () => {
+    const names = Fake.fullName(Fake.de).take(200);
+
+    expect(names.every(name => {
+        const [first, last] = name.split(" ");
+        return Fake.de.firstNames.indexOf(first) !== -1 && Fake.de.lastNames.indexOf(last) !== -1;
+    })).toBe(true);
+    expect(Fake.de.firstNames).toContain(Fake.firstName(Fake.de).next());
+    expect(Fake.en.lastNames).toContain(Fake.lastName().next());
+});
+
+test("emails and usernames are ASCII made of names", () => {
+    const emails = Fake.email(Fake.de).take(300);
+    const usernames = Fake.username(Fake.de).take(300);
+
+    expect(emails.every(e => /^[a-z]+\.[a-z]+\d{0,2}@example\.(com|org|net)$/.test(e))).toBe(true);
+    expect(emails.some(e => /ue|oe|ae/.test(e))).toBe(true);
+    expect(usernames.every(u => /^[a-z0-9._]+$/.test(u))).toBe(true);
+    expect(new Set(usernames).size).toBeGreaterThan(200);
+});
+
+test("usernames and emails leave out names without ASCII letters", () => {
+    const locale = { ...Fake.en, firstNames: ["Юрий", "Ann"], lastNames: ["李", "Lee"] };
+    const usernames = Fake.username(locale, Random.pcg32(5)).take(300);
+    const emails = Fake.email(locale, Random.pcg32(5)).take(300);
+
+    expect(usernames.every(u => /^(ann|lee|user)\d{4}$|^(alee|ann_l|lee\d{4}|ann\.lee)$/.test(u))).toBe(true);
+    expect(usernames.some(u => u.startsWith("user"))).toBe(true);
+    expect(emails.every(e => /^[a-z]+(\.[a-z]+)?\d{0,2}@/.test(e))).toBe(true);
+});
+
+test("generators reject locales with empty lists right away", () => {
+    expect(() => Fake.firstName({ ...Fake.en, firstNames: [] })).toThrow(InvalidParameterError);
+    expect(() => Fake.email({ ...Fake.en, emailDomains: [] })).toThrow(InvalidParameterError);
+    expect(() => Fake.address({ ...Fake.de, cities: [] })).toThrow(InvalidParameterError);
+    expect(() => Fake.companyName({ ...Fake.en, companySuffixes: [] })).toThrow(InvalidParameterError);
+});
+
+test("phone numbers and addresses follow the locale", () => {
+    expect(Fake.phoneNumber().take(100).every(p => /^\([2-9]\d{2}\) 555-01\d{2}$/.test(p))).toBe(true);
+    expect(Fake.phoneNumber(Fake.de).take(100).every(p => /^\+49 (30|40|89|221|69|711) \d{6,8}$/.test(p))).toBe(true);
+
+    const addresses = Fake.address(Fake.de).take(100);
+    expect(addresses.every(a =>
+        /^\d{5}$/.test(a.postalCode)
+        && Fake.de.streets.indexOf(a.street) !== -1
+        && a.formatted === `${a.street} ${a.houseNumber}, ${a.postalCode} ${a.city}`
+    )).toBe(true);
+    expect(Fake.address().next().formatted).toMatch(/^\d+ [A-Za-z ]+, [A-Za-z ]+ \d{5}$/);
+});
+
+test("company names end with a legal form of the locale", () => {
+    const companies = Fake.companyName(Fake.de).take(100);
+
+    expect(companies.every(c => Fake.de.companySuffixes.some(suffix => c.endsWith(" " + suffix)))).toBe(true);
+    expect(companies.some(c => c.indexOf(" & ") !== -1)).toBe(true);
+    expect(companies.every(c => !/^(\S+) & \1 /.test(c))).toBe(true);
+    expect(Fake.companyName({ ...Fake.de, lastNames: ["Solo"] }, Random.pcg32(1)).take(20).every(c => !c.startsWith("Solo & "))).toBe(true);
+});
+
+test("lorem ipsum sentences and paragraphs", () => {
+    const sentences = Fake.loremSentence({ min: 3, max: 6 }).take(100);
+    const paragraphs = Fake.loremParagraph({ min: 2, max: 2 }).take(20);
+
+    expect(sentences.every(s => /^[A-Z][a-z]*( [a-z]+){2,5}\.$/.test(s))).toBe(true);
+    expect(paragraphs.every(p => p.split(". ").length === 2)).toBe(true);
+});
+
+test("uuid() generates version 4 UUIDs", () => {
+    const uuids = Fake.uuid().take(200);
+
+    expect(uuids.every(u => /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/.test(u))).toBe(true);
+    expect(new Set(uuids).size).toBe(200);
+});
+
+test("IP addresses and colors are well-formed", () => {
+    expect(Fake.ipv4().take(100).every(ip => ip.split(".").every(part => Number(part) >= 0 && Number(part) <= 255))).toBe(true);
+    expect(Fake.ipv6().take(100).every(ip => /^([0-9a-f]{1,4}:){7}[0-9a-f]{1,4}$/.test(ip))).toBe(true);
+    expect(Fake.hexColor().take(100).every(c => /^#[0-9a-f]{6}$/.test(c))).toBe(true);
+    expect(Fake.rgbColor().take(100).every(rgb => rgb.length === 3 && rgb.every(c => c >= 0 && c <= 255))).toBe(true);
+    expect(Fake.de.colorNames).toContain(Fake.colorName(Fake.de).next());
+});
+
+test("fake data is deterministic for a seeded source", () => {
+    const person = (seed: number) => {
+        const source = Random.pcg32(seed);
+        return Random.object({
+            name: Fake.fullName(Fake.de, source),
+            email: Fake.email(Fake.de, source),
+            address: Fake.address(Fake.de, source),
+            id: Fake.uuid(source),
+            color: Fake.hexColor(source)
+        }).take(5);
+    };
+
+    expect(person(42)).toStrictEqual(person(42));
+    expect(person(43)).not.toStrictEqual(person(42));
+});
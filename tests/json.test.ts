@@ -0,0 +1,40 @@
+import * as Random from "../src/elmish-random";
+import { Json, json } from "../src/json";
+
+const depth = (value: Json): number =>
+    Array.isArray(value)
+        ? 1 + Math.max(0, ...value.map(depth))
+        : value !== null && typeof value === "object"
+            ? 1 + Math.max(0, ...Object.keys(value).map(key => depth(value[key])))
+            : 0;
+
+test("json() generates values that survive a JSON round trip", () => {
+    const tmp =
+        Random.list(500, json())
+            .next()
+            .every(value => JSON.stringify(JSON.parse(JSON.stringify(value))) === JSON.stringify(value));
+
+    expect(tmp).toBe(true);
+});
+
+test("json() generates every kind of JSON value", () => {
+    const kinds =
+        Random.list(1000, json({ maxDepth: 1 }))
+            .next()
+            .map(value => Array.isArray(value) ? "array" : value === null ? "null" : typeof value);
+
+    expect(new Set(kinds)).toStrictEqual(new Set(["null", "boolean", "number", "string", "array", "object"]));
+});
+
+test("json() respects maxDepth and maxLength", () => {
+    const values = Random.list(500, json({ maxDepth: 2, maxLength: 3 })).next();
+
+    expect(values.every(value => depth(value) <= 2)).toBe(true);
+    expect(values.every(value => !Array.isArray(value) || value.length <= 3)).toBe(true);
+});
+
+test("json() is deterministic for a seed", () => {
+    const seed = Random.initialSeed(5);
+
+    expect(Random.step(json(), seed)).toStrictEqual(Random.step(json(), seed));
+});
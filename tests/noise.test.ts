@@ -0,0 +1,66 @@
+import * as Random from "../src/elmish-random";
+import { InvalidParameterError } from "../src/distributions";
+import { fbm, noiseGrid, perlin, simplex } from "../src/noise";
+
+const coordinates = Random.list(3, Random.float(-50, 50, Random.pcg32(99))).take(2000);
+
+test.each([["perlin", perlin], ["simplex", simplex]])("%s() generates fields within [-1, 1] in 1, 2 and 3 dimensions", (_, noise) => {
+    const field = noise().next();
+    const values = coordinates.reduce((acc: number[], [x, y, z]) => acc.concat([field(x), field(x, y), field(x, y, z)]), []);
+
+    expect(values.every(v => v >= -1 && v <= 1)).toBe(true);
+    expect(new Set(values).size).toBeGreaterThan(5000);
+});
+
+test.each([["perlin", perlin], ["simplex", simplex]])("%s() is coherent", (_, noise) => {
+    const field = noise().next();
+
+    expect(coordinates.every(([x, y, z]) => Math.abs(field(x, y, z) - field(x + 0.001, y, z)) < 0.02)).toBe(true);
+    expect(coordinates.every(([x, y]) => Math.abs(field(x, y) - field(x, y + 0.001)) < 0.02)).toBe(true);
+});
+
+test.each([["perlin", perlin], ["simplex", simplex]])("%s() gives the same field for the same seed", (_, noise) => {
+    const a = noise(Random.pcg32(2024)).next();
+    const b = noise(Random.pcg32(2024)).next();
+    const c = noise(Random.pcg32(2025)).next();
+
+    expect(coordinates.map(([x, y, z]) => b(x, y, z))).toStrictEqual(coordinates.map(([x, y, z]) => a(x, y, z)));
+    expect(coordinates.map(([x, y, z]) => c(x, y, z))).not.toStrictEqual(coordinates.map(([x, y, z]) => a(x, y, z)));
+});
+
+test("fbm() adds up octaves within [-1, 1]", () => {
+    const field = simplex(Random.pcg32(1)).next();
+    const one = fbm(field, { octaves: 1 });
+    const six = fbm(field, { octaves: 6, gain: 0.6 });
+
+    expect(coordinates.every(([x, y]) => one(x, y) === field(x, y))).toBe(true);
+    expect(coordinates.every(([x, y, z]) => six(x, y, z) >= -1 && six(x, y, z) <= 1)).toBe(true);
+    expect(() => fbm(field, { octaves: 0 })).toThrow(InvalidParameterError);
+});
+
+test("fbm() rejects lacunarities that aren't finite and gains that aren't > 0", () => {
+    const field = simplex(Random.pcg32(1)).next();
+
+    [{ gain: 0 }, { gain: -0.5 }, { gain: NaN }, { gain: Infinity }, { lacunarity: NaN }, { lacunarity: Infinity }]
+        .forEach(options => expect(() => fbm(field, options)).toThrow(InvalidParameterError));
+    expect(() => fbm(field, { gain: NaN })).toThrow("fbm: gain must be a finite number > 0, got NaN.");
+});
+
+test("noiseGrid() generates smooth grids of the given size", () => {
+    const grid = noiseGrid(40, 25, { scale: 0.05 }, Random.pcg32(3)).next();
+    const perlinGrid = noiseGrid(40, 25, { kind: "perlin", octaves: 2 }, Random.pcg32(3)).next();
+    const steps = grid.reduce((acc: number[], row) => acc.concat(row.slice(1).map((v, i) => Math.abs(v - row[i]))), []);
+
+    expect(grid.length).toBe(25);
+    expect(grid.every(row => row.length === 40 && row.every(v => v >= -1 && v <= 1))).toBe(true);
+    expect(Math.max(...steps)).toBeLessThan(0.5);
+    expect(noiseGrid(40, 25, { scale: 0.05 }, Random.pcg32(3)).next()).toStrictEqual(grid);
+    expect(perlinGrid).not.toStrictEqual(grid);
+});
+
+test("noiseGrid() rejects sizes that aren't ints >= 0", () => {
+    [[-1, 5], [5, 2.5], [NaN, 5], [5, Infinity]].forEach(([width, height]) =>
+        expect(() => noiseGrid(width, height)).toThrow(InvalidParameterError)
+    );
+    expect(noiseGrid(0, 3, {}, Random.pcg32(1)).next()).toStrictEqual([[], [], []]);
+});
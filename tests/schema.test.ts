@@ -0,0 +1,168 @@
+import * as Random from "../src/elmish-random";
+import { Json } from "../src/json";
+import { JsonSchema, UnsupportedSchemaError, fromJsonSchema } from "../src/schema";
+
+const sample = (schema: JsonSchema, n: number = 300, seed: number = 1): Json[] =>
+    fromJsonSchema(schema, {}, Random.pcg32(seed)).take(n);
+
+test("fromJsonSchema() generates values of the given type", () => {
+    const kind = (value: Json) => Array.isArray(value) ? "array" : value === null ? "null" : typeof value;
+
+    expect(new Set(sample({ type: "null" }).map(kind))).toStrictEqual(new Set(["null"]));
+    expect(new Set(sample({ type: "boolean" }))).toStrictEqual(new Set([true, false]));
+    expect((sample({ type: "integer" }) as number[]).every(x => Number.isInteger(x))).toBe(true);
+    expect(new Set(sample({ type: ["string", "array"] }).map(kind))).toStrictEqual(new Set(["string", "array"]));
+});
+
+test("fromJsonSchema() honours enum and const", () => {
+    expect(new Set(sample({ enum: ["a", 1, null] }))).toStrictEqual(new Set(["a", 1, null]));
+    expect(sample({ const: { a: [1] } }, 3)).toStrictEqual([{ a: [1] }, { a: [1] }, { a: [1] }]);
+});
+
+test("fromJsonSchema() honours numeric bounds", () => {
+    const ints = sample({ type: "integer", minimum: 3, exclusiveMaximum: 7 }) as number[];
+    const floats = sample({ type: "number", exclusiveMinimum: 0, maximum: 1 }) as number[];
+
+    expect(new Set(ints)).toStrictEqual(new Set([3, 4, 5, 6]));
+    expect(floats.every(x => x > 0 && x <= 1)).toBe(true);
+    expect(() => fromJsonSchema({ type: "integer", minimum: 1.2, maximum: 1.8 })).toThrow(UnsupportedSchemaError);
+});
+
+test("fromJsonSchema() honours string lengths and patterns", () => {
+    const strings = sample({ type: "string", minLength: 2, maxLength: 4 }) as string[];
+    const codes = sample({ type: "string", pattern: "^[A-Z]{2}-\\d{3}$" }) as string[];
+
+    expect(strings.every(s => s.length >= 2 && s.length <= 4)).toBe(true);
+    expect(codes.every(s => /^[A-Z]{2}-\d{3}$/.test(s))).toBe(true);
+});
+
+test("fromJsonSchema() honours items, required and properties", () => {
+    const lists = sample({ type: "array", items: { type: "integer", minimum: 0, maximum: 9 }, minItems: 1, maxItems: 3 }) as number[][];
+    const tuples = sample({ items: [{ type: "string" }, { type: "boolean" }] }) as Array<[string, boolean]>;
+    const users = sample({
+        type: "object",
+        properties: { id: { type: "integer" }, nickname: { type: "string" } },
+        required: ["id"]
+    }) as Array<{ id: number, nickname?: string }>;
+
+    expect(lists.every(xs => xs.length >= 1 && xs.length <= 3 && xs.every(x => x >= 0 && x <= 9))).toBe(true);
+    expect(tuples.every(([s, b]) => typeof s === "string" && typeof b === "boolean")).toBe(true);
+    expect(users.every(user => Number.isInteger(user.id))).toBe(true);
+    expect(users.some(user => "nickname" in user) && users.some(user => !("nickname" in user))).toBe(true);
+});
+
+test("fromJsonSchema() picks from oneOf and anyOf with their sibling keywords", () => {
+    const values = sample({
+        type: "object",
+        required: ["kind"],
+        oneOf: [
+            { properties: { kind: { const: "circle" }, radius: { type: "number" } }, required: ["radius"] },
+            { properties: { kind: { const: "square" }, side: { type: "number" } }, required: ["side"] }
+        ]
+    }) as Array<{ kind: string, radius?: number, side?: number }>;
+
+    expect(new Set(values.map(value => value.kind))).toStrictEqual(new Set(["circle", "square"]));
+    expect(values.every(value => value.kind === "circle" ? value.radius !== undefined : value.side !== undefined)).toBe(true);
+    expect(new Set(sample({ anyOf: [{ const: 1 }, { const: 2 }] }))).toStrictEqual(new Set([1, 2]));
+});
+
+test("fromJsonSchema() skips values that match more than one schema of oneOf", () => {
+    const values = sample({
+        oneOf: [
+            { type: "integer", minimum: 0, maximum: 10 },
+            { type: "integer", minimum: 5, maximum: 15 }
+        ]
+    }) as number[];
+
+    expect(values.every(x => x < 5 || x > 10)).toBe(true);
+    expect(values.some(x => x < 5) && values.some(x => x > 10)).toBe(true);
+});
+
+test("fromJsonSchema() honours additionalProperties for required properties without a schema", () => {
+    const values = sample({ type: "object", required: ["id"], additionalProperties: { type: "integer" } }) as Array<{ id: number }>;
+
+    expect(values.every(value => Number.isInteger(value.id))).toBe(true);
+    expect(() => fromJsonSchema({ type: "object", required: ["id"], additionalProperties: false }))
+        .toThrow(UnsupportedSchemaError);
+});
+
+test("fromJsonSchema() throws on schemas no value satisfies", () => {
+    [
+        { type: "number", exclusiveMinimum: 1, exclusiveMaximum: 1 },
+        { type: "number", minimum: 1, exclusiveMaximum: 1 },
+        { type: "string", pattern: "^a{2}$", minLength: 5 },
+        { type: "string", pattern: "^a{2,3}$", maxLength: 1 },
+        { type: "array", minItems: 3, maxItems: 1 }
+    ]
+        .forEach(schema => expect(() => fromJsonSchema(schema as JsonSchema)).toThrow(UnsupportedSchemaError));
+});
+
+test("fromJsonSchema() counts string lengths in code points", () => {
+    const strings = sample({ type: "string", pattern: "^[😀-🙏]{1,6}$", maxLength: 3 }) as string[];
+
+    expect(strings.every(s => Array.from(s).length <= 3)).toBe(true);
+    expect(strings.some(s => Array.from(s).length === 3)).toBe(true);
+});
+
+test("fromJsonSchema() follows recursive $refs up to maxDepth", () => {
+    type Tree = { value: number, children?: Tree[] };
+    const depth = (tree: Tree): number =>
+        1 + Math.max(0, ...(tree.children ?? []).map(depth));
+
+    const trees = fromJsonSchema({
+        $defs: {
+            tree: {
+                type: "object",
+                properties: {
+                    value: { type: "integer" },
+                    children: { type: "array", items: { $ref: "#/$defs/tree" } }
+                },
+                required: ["value"]
+            }
+        },
+        $ref: "#/$defs/tree"
+    }, { maxDepth: 4 }, Random.pcg32(1)).take(200) as Tree[];
+
+    expect(trees.every(tree => depth(tree) <= 3)).toBe(true);
+    expect(trees.some(tree => depth(tree) > 1)).toBe(true);
+});
+
+test("fromJsonSchema() generates the required properties under their own names at maxDepth", () => {
+    const schema: JsonSchema = {
+        type: "object",
+        properties: { a: { type: "string" }, b: { type: "integer", minimum: 1, maximum: 3 } },
+        required: ["b"]
+    };
+    const values = fromJsonSchema(schema, { maxDepth: 0 }, Random.pcg32(1)).take(100);
+
+    expect(values.every(value => {
+        const keys = Object.keys(value as object);
+        const b = (value as { b: number }).b;
+        return keys.length === 1 && keys[0] === "b" && Number.isInteger(b) && b >= 1 && b <= 3;
+    })).toBe(true);
+});
+
+test("fromJsonSchema() throws on unsupported keywords and refs", () => {
+    const error = (schema: JsonSchema) => {
+        try {
+            fromJsonSchema(schema);
+        }
+        catch (e) {
+            return e;
+        }
+    };
+
+    expect(error({ type: "object", properties: { email: { type: "string", format: "email" } } }))
+        .toMatchObject({ name: "UnsupportedSchemaError", path: "#/properties/email/format" });
+    expect(error({ $ref: "https://example.com/schema.json" })).toBeInstanceOf(UnsupportedSchemaError);
+    expect(error({ $ref: "#/definitions/missing" })).toBeInstanceOf(UnsupportedSchemaError);
+    expect(error(false)).toBeInstanceOf(UnsupportedSchemaError);
+});
+
+test("fromJsonSchema() is deterministic for a seed", () => {
+    const schema: JsonSchema = { type: "array", items: { type: ["integer", "string"] } };
+    const seed = Random.initialSeed(3);
+
+    expect(Random.step(fromJsonSchema(schema), seed)).toStrictEqual(Random.step(fromJsonSchema(schema), seed));
+    expect(sample(schema, 10, 7)).toStrictEqual(sample(schema, 10, 7));
+});
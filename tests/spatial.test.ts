@@ -0,0 +1,80 @@
+import * as Random from "../src/elmish-random";
+import { InvalidParameterError } from "../src/distributions";
+import { Point, angle, pointInCircle, pointInPolygon, pointInTriangle, pointOnSphere, poissonDisk, rotation, rotationMatrix, unitVector } from "../src/spatial";
+
+const mean = (xs: number[]): number =>
+    xs.reduce((acc, x) => acc + x, 0) / xs.length;
+
+test("pointInCircle() is uniform by area", () => {
+    const points = pointInCircle([5, -5], 2).take(4000);
+    const distances = points.map(([x, y]) => Math.hypot(x - 5, y + 5));
+
+    expect(distances.every(d => d <= 2)).toBe(true);
+    // half of the area is within radius 2 / sqrt(2)
+    expect(distances.filter(d => d < 2 / Math.SQRT2).length / points.length).toBeCloseTo(0.5, 1);
+    expect(() => pointInCircle([0, 0], -1)).toThrow(InvalidParameterError);
+});
+
+test("unitVector() generates vectors of length 1 in every direction", () => {
+    const vectors = unitVector(4).take(2000);
+
+    expect(vectors.every(v => v.length === 4 && Math.abs(Math.hypot(...v) - 1) < 1e-12)).toBe(true);
+    expect(Math.abs(mean(vectors.map(v => v[0])))).toBeLessThan(0.05);
+    expect(() => unitVector(0)).toThrow(InvalidParameterError);
+});
+
+test("pointOnSphere() generates points on the surface, uniform by area", () => {
+    const points = pointOnSphere([1, 2, 3], 10).take(4000);
+
+    expect(points.every(([x, y, z]) => Math.abs(Math.hypot(x - 1, y - 2, z - 3) - 10) < 1e-9)).toBe(true);
+    // Archimedes: z is uniform on a sphere
+    expect(mean(points.map(([_, __, z]) => z - 3))).toBeCloseTo(0, 0);
+    expect(points.filter(([_, __, z]) => z - 3 > 5).length / points.length).toBeCloseTo(0.25, 1);
+});
+
+test("pointInTriangle() generates points within the triangle", () => {
+    const points = pointInTriangle([0, 0], [4, 0], [0, 4], Random.pcg32(5)).take(2000);
+
+    expect(points.every(([x, y]) => x >= 0 && y >= 0 && x + y <= 4 + 1e-12)).toBe(true);
+    // the centroid of the points is the centroid of the triangle
+    expect(mean(points.map(([x]) => x))).toBeCloseTo(4 / 3, 1);
+});
+
+test("pointInPolygon() is uniform by area in non-convex polygons", () => {
+    const room: Point[] = [[0, 0], [10, 0], [10, 4], [4, 4], [4, 10], [0, 10]];
+    const points = pointInPolygon(room).take(4000);
+    const inRoom = ([x, y]: Point) => x >= 0 && y >= 0 && x <= 10 && y <= 10 && (x <= 4 || y <= 4);
+    const inArm = ([x, y]: Point) => x > 4 && y <= 4;
+
+    expect(points.every(inRoom)).toBe(true);
+    // the arm [4, 10] x [0, 4] is 24 of the 64 square units
+    expect(points.filter(inArm).length / points.length).toBeCloseTo(24 / 64, 1);
+    expect(pointInPolygon([...room].reverse()).take(500).every(inRoom)).toBe(true);
+    expect(() => pointInPolygon([[0, 0], [1, 1]])).toThrow(InvalidParameterError);
+    expect(() => pointInPolygon([[0, 0], [1, 1], [2, 2]])).toThrow(InvalidParameterError);
+});
+
+test("rotation() generates unit quaternions and rotationMatrix() orthonormal matrices", () => {
+    const quaternions = rotation().take(500);
+    const matrices = rotationMatrix().take(500);
+    const dot = (a: number[], b: number[]) => a.reduce((acc, x, i) => acc + x * b[i], 0);
+
+    expect(quaternions.every(q => Math.abs(Math.hypot(...q) - 1) < 1e-12)).toBe(true);
+    expect(matrices.every(m =>
+        [0, 1, 2].every(i => [0, 1, 2].every(j => Math.abs(dot(m[i], m[j]) - (i === j ? 1 : 0)) < 1e-9))
+    )).toBe(true);
+    expect(angle().take(500).every(a => a >= 0 && a < 2 * Math.PI)).toBe(true);
+});
+
+test("poissonDisk() generates well-spaced points that fill the rectangle", () => {
+    const points = poissonDisk(50, 30, 3, {}, Random.pcg32(1)).next();
+    const closest = points.map((p, i) =>
+        Math.min(...points.filter((_, j) => j !== i).map(q => Math.hypot(p[0] - q[0], p[1] - q[1])))
+    );
+
+    expect(points.every(([x, y]) => x >= 0 && x < 50 && y >= 0 && y < 30)).toBe(true);
+    expect(Math.min(...closest)).toBeGreaterThanOrEqual(3);
+    // dense packings cover roughly 1 point per 1.5 * minDistance^2
+    expect(points.length).toBeGreaterThan(50 * 30 / (3 * 3 * 2.5));
+    expect(poissonDisk(50, 30, 3, {}, Random.pcg32(1)).next()).toStrictEqual(points);
+});
@@ -0,0 +1,43 @@
+import * as Random from "../src/elmish-random";
+import { toAsyncIterable, toReadable } from "../src/streams";
+
+test("toAsyncIterable() yields count values", async () => {
+    const values: number[] = [];
+    for await (const x of toAsyncIterable(Random.int(0, 9), 50)) {
+        values.push(x);
+    }
+
+    expect(values.length).toBe(50);
+    expect(values.every(x => x >= 0 && x <= 9)).toBe(true);
+});
+
+test("toAsyncIterable() is infinite without count", async () => {
+    const iterator = toAsyncIterable(Random.constant("X"))[Symbol.asyncIterator]();
+
+    for (let i = 0; i < 1000; i += 1) {
+        expect(await iterator.next()).toStrictEqual({ done: false, value: "X" });
+    }
+});
+
+test("toReadable() streams count values and ends", async () => {
+    const values: Array<{ id: number }> = [];
+    const stream = toReadable(Random.object({ id: Random.int(1, 100) }), 100);
+
+    for await (const value of stream) {
+        values.push(value);
+    }
+
+    expect(values.length).toBe(100);
+    expect(values.every(v => v.id >= 1 && v.id <= 100)).toBe(true);
+});
+
+test("toReadable() generates values only when they are read", () => {
+    let generated = 0;
+    const counting = Random.constant(0).map(() => (generated += 1));
+    const stream = toReadable(counting);
+
+    stream.read();
+    stream.destroy();
+
+    expect(generated).toBeLessThanOrEqual(stream.readableHighWaterMark + 1);
+});
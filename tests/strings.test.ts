@@ -0,0 +1,123 @@
+import * as Random from "../src/elmish-random";
+import * as Strings from "../src/strings";
+
+test("char() picks characters of a string charset", () => {
+    const tmp =
+        Random.list(1000, Strings.char("aeiou"))
+            .next();
+
+    expect(new Set(tmp)).toStrictEqual(new Set(["a", "e", "i", "o", "u"]));
+});
+
+test("char() picks characters of code point ranges", () => {
+    const tmp =
+        Random.list(1000, Strings.char([[0x1F600, 0x1F64F], [0x41, 0x41]]))
+            .next()
+            .every(c => c === "A" || (c.codePointAt(0) as number) >= 0x1F600 && (c.codePointAt(0) as number) <= 0x1F64F);
+
+    expect(tmp).toBe(true);
+});
+
+test("char() rejects empty charsets", () => {
+    expect(() => Strings.char("")).toThrow();
+    expect(() => Strings.char([[10, 5]])).toThrow();
+});
+
+test("char() counts repeated characters of a string charset once", () => {
+    const tmp =
+        Random.list(4000, Strings.char("aaab", Random.pcg32(1)))
+            .next()
+            .filter(c => c === "a")
+            .length;
+
+    expect(tmp).toBeGreaterThan(1800);
+    expect(tmp).toBeLessThan(2200);
+});
+
+test("char() shrinks towards the first character", () => {
+    expect(Random.shrink(Strings.char("abcdefgh"), "e")).toStrictEqual(["a", "c", "d"]);
+});
+
+test("string() generates strings with a length within bounds", () => {
+    const tmp =
+        Random.list(1000, Strings.string({ min: 2, max: 6 }, Strings.hex))
+            .next()
+            .every(s => /^[0-9a-f]{2,6}$/.test(s));
+
+    expect(tmp).toBe(true);
+});
+
+test("string() counts code points, not code units", () => {
+    const s = Strings.string({ min: 5, max: 5 }, [[0x10000, 0x10FFFF]]).next();
+
+    expect(Array.from(s).length).toBe(5);
+    expect(s.length).toBe(10);
+});
+
+test("string() shrinks to shorter and simpler strings", () => {
+    const generator = Strings.string({ min: 1, max: 5 }, "ab");
+
+    expect(Random.shrink(generator, "bab")).toStrictEqual(["b", "ab", "bb", "ba", "aab", "baa"]);
+});
+
+test("unicode contains no lone surrogates", () => {
+    const tmp =
+        Random.list(200, Strings.string({ min: 10, max: 10 }, Strings.unicode))
+            .next()
+            .every(s => encodeURIComponent(s).length > 0);
+
+    expect(tmp).toBe(true);
+});
+
+test("fromRegex() generates strings matching the pattern", () => {
+    const patterns = [
+        /^[A-Z]{1,3}-[A-Z]{1,2} [1-9]\d{0,3}$/,
+        /[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}/,
+        /(?:foo|ba[rz])+\.(com|de)?/,
+        /\w+@\w+\.\w{2,3}/,
+        /[^a-z]{3}.\s\S\D\W/,
+        /a*?b+c?d{2,}e{0}/,
+        /\x41B\n\t\(\)\[\]/,
+        /(?<year>\d{4})-(?<month>0[1-9]|1[0-2])/,
+        /[\d_-]+|x/,
+        /a\\$/
+    ];
+
+    patterns.forEach(pattern => {
+        const anchored = new RegExp("^(?:" + pattern.source.replace(/^\^|\$$/g, "") + ")$");
+        const tmp =
+            Random.list(200, Strings.fromRegex(pattern))
+                .next()
+                .every(s => anchored.test(s));
+        expect(tmp).toBe(true);
+    });
+});
+
+test("fromRegex() picks from all of Unicode for negated classes without printable ASCII", () => {
+    const tmp =
+        Random.list(200, Strings.fromRegex(/^[^\x00-\x7f]{3}$/))
+            .next()
+            .every(s => /^[^\x00-\x7f]{3}$/u.test(s));
+
+    expect(tmp).toBe(true);
+});
+
+test("fromRegex() threads the seed", () => {
+    const generator = Strings.fromRegex(/[a-z]{3,8}(-\d+)*/);
+    const seed = Random.initialSeed(10);
+
+    expect(Random.step(generator, seed)).toStrictEqual(Random.step(generator, seed));
+});
+
+test("regexLengths() gives the shortest and longest length fromRegex() generates", () => {
+    expect(Strings.regexLengths(/^[A-Z]{2}-\d{3,4}$/)).toStrictEqual({ min: 6, max: 7 });
+    expect(Strings.regexLengths("(?:foo|x)?ab+")).toStrictEqual({ min: 2, max: 13 });
+    expect(Strings.regexLengths("\\u00e4😀")).toStrictEqual({ min: 2, max: 2 });
+});
+
+test("fromRegex() throws an UnsupportedPatternError for unsupported features", () => {
+    [/(a)\1/, /a(?=b)/, /\bword/, /a^b/, "a{3,1}", "(a", "a)", "[a", "a\\", "[a\\"]
+        .forEach(pattern =>
+            expect(() => Strings.fromRegex(pattern)).toThrow(Strings.UnsupportedPatternError)
+        );
+});